@@ -0,0 +1,83 @@
+import { BridgeRouterI, LLMBridgeInterface } from "../shared/interfaces";
+import { LATENCY_TIERS, RoutingHints } from "../shared/types";
+import { PromptStep } from "../events/runEvents";
+
+/**
+ * Everything a router knows when selecting the bridge for a prompt step
+ */
+export type BridgeRouteRequest = {
+    step: PromptStep;
+    /**
+     * The user's prompt
+     */
+    prompt: string;
+    hints: RoutingHints;
+    /**
+     * Every registered bridge
+     */
+    bridges: LLMBridgeInterface[];
+    /**
+     * Bridge the step would be sent to without routing
+     */
+    currentBridge: LLMBridgeInterface;
+};
+
+/**
+ * Checks whether the bridge's metadata satisfies every given hint, missing metadata never satisfies a hint
+ */
+export function bridgeMatchesHints(bridge: LLMBridgeInterface, hints: RoutingHints): boolean {
+    const metadata = bridge.metadata;
+
+    if (hints.tags && !hints.tags.every((tag) => metadata.tags?.includes(tag))) return false;
+    if (hints.requiresImages && !metadata.supportsImages) return false;
+
+    if (hints.maxCostPerCall !== undefined
+        && (metadata.costPerCall === undefined || metadata.costPerCall > hints.maxCostPerCall)) return false;
+
+    if (hints.minContextTokens !== undefined
+        && (metadata.maxContextTokens === undefined || metadata.maxContextTokens < hints.minContextTokens)) return false;
+
+    if (hints.maxLatencyTier !== undefined
+        && (metadata.latencyTier === undefined
+            || LATENCY_TIERS.indexOf(metadata.latencyTier) > LATENCY_TIERS.indexOf(hints.maxLatencyTier))) return false;
+
+    return true;
+}
+
+/**
+ * Routes each step to the cheapest bridge (then the fastest) that satisfies the call's hints and
+ * the step's required tags, e.g. a fast model for discovery and a reasoning model for the final answer:
+ *
+ * ```typeScript
+ * new MetadataBridgeRouter({ stepTags: { "discovery": ["fast"], "context-aware": ["reasoning"] } })
+ * ```
+ *
+ * The current bridge is kept if no bridge matches.
+ */
+export class MetadataBridgeRouter implements BridgeRouterI {
+    private stepTags: Partial<Record<PromptStep, string[]>>;
+
+    constructor({
+        stepTags
+    }: {
+        stepTags?: Partial<Record<PromptStep, string[]>>
+    } = {}) {
+        this.stepTags = stepTags ?? {};
+    }
+
+    route(request: BridgeRouteRequest): string | undefined {
+        const hints: RoutingHints = {
+            ...request.hints,
+            tags: [...(request.hints.tags ?? []), ...(this.stepTags[request.step] ?? [])]
+        };
+
+        const [bridge] = request.bridges
+            .filter((bridge) => bridgeMatchesHints(bridge, hints))
+            .sort((a, b) =>
+                (a.metadata.costPerCall ?? Infinity) - (b.metadata.costPerCall ?? Infinity)
+                || LATENCY_TIERS.indexOf(a.metadata.latencyTier ?? "high") - LATENCY_TIERS.indexOf(b.metadata.latencyTier ?? "high")
+            );
+
+        return bridge?.name;
+    }
+}
@@ -1,24 +1,83 @@
-import { LLMBridgeInterface } from "../shared/interfaces";
-import { LLMMessage, MacInput, MacOutput } from "../shared/types";
+import { LLMBridgeInterface, PromptBuilderI, PromptRendererI } from "../shared/interfaces";
+import { ContextBudget } from "../orchestrator/contextBudget";
+import { RateLimiter, RateLimitPolicy } from "./rateLimiter";
+import { RetryPolicy } from "./retryPolicy";
+import { BridgeCapabilities, BridgeMetadata, LLMMessage, MacInput, MacOutput, RequestExtra } from "../shared/types";
 
 class LLMBridge implements LLMBridgeInterface {
     // Properties
     name: string;
+    /**
+     * Features supported by the bridge's provider, e.g. native tool calling
+     */
+    capabilities: BridgeCapabilities;
+    /**
+     * Cost, context size, latency and tags of the bridge's model, used for routing
+     */
+    metadata: BridgeMetadata;
+    /**
+     * Maximum time in milliseconds to wait for a response, unlimited if undefined
+     */
+    timeout?: number;
+    /**
+     * Retries transient failures (e.g. rate limits, network errors), failures aren't retried if undefined
+     */
+    retryPolicy?: RetryPolicy;
+    /**
+     * Limits the prompts sent to this bridge across every run, unlimited if undefined
+     */
+    readonly rateLimiter?: RateLimiter;
+    /**
+     * Prompts sent to this bridge are shrunk to fit within the budget, unlimited if undefined
+     */
+    contextBudget?: ContextBudget;
+    /**
+     * Overrides the prompt builder of the orchestrator for prompts sent to this bridge
+     */
+    promptBuilder?: PromptBuilderI;
+    /**
+     * Overrides the prompt renderer of the orchestrator, e.g. XML or Markdown for smaller local models
+     */
+    promptRenderer?: PromptRendererI;
 
     // Handlers
-    promptExecutor: (input: MacInput) => Promise<MacOutput>;
+    promptExecutor: (input: MacInput, extra: RequestExtra) => Promise<MacOutput>;
     completionHandler: (output: MacOutput) => void;
 
     constructor({
         name,
         promptExecutor,
-        completionHandler
+        completionHandler,
+        contextBudget,
+        promptBuilder,
+        promptRenderer,
+        capabilities,
+        metadata,
+        timeout,
+        retryPolicy,
+        rateLimit
     }: {
         name: string,
-        promptExecutor: (input: MacInput) => Promise<LLMMessage>,
-        completionHandler: (output: MacOutput) => void
+        promptExecutor: (input: MacInput, extra: RequestExtra) => Promise<LLMMessage>,
+        completionHandler: (output: MacOutput) => void,
+        contextBudget?: ContextBudget,
+        promptBuilder?: PromptBuilderI,
+        promptRenderer?: PromptRendererI,
+        capabilities?: BridgeCapabilities,
+        metadata?: BridgeMetadata,
+        timeout?: number,
+        retryPolicy?: RetryPolicy,
+        rateLimit?: RateLimitPolicy
     }) {
         this.name = name;
+        this.capabilities = capabilities ?? {};
+        this.metadata = metadata ?? {};
+        this.timeout = timeout;
+        this.retryPolicy = retryPolicy;
+        this.rateLimiter = rateLimit && new RateLimiter(rateLimit);
+        this.contextBudget = contextBudget;
+        this.promptBuilder = promptBuilder;
+        this.promptRenderer = promptRenderer;
         this.promptExecutor = promptExecutor;
         this.completionHandler = completionHandler;
     }
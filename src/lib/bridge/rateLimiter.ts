@@ -0,0 +1,87 @@
+/**
+ * Limits how many prompts are sent to a bridge, shared by every run using the bridge
+ */
+export type RateLimitPolicy = {
+    /**
+     * Maximum number of prompts awaiting a response at the same time
+     */
+    maxConcurrentRequests?: number;
+    /**
+     * Maximum number of prompts sent within `interval`
+     */
+    maxRequestsPerInterval?: number;
+    /**
+     * Length of the rate limit window in milliseconds, default is 60 seconds
+     */
+    interval?: number;
+};
+
+/**
+ * Queues tasks until both the concurrency and the per-interval limits allow them to run
+ */
+export class RateLimiter {
+    private _active: number = 0;
+    private _startTimes: number[] = [];
+    private _waiting: (() => void)[] = [];
+
+    constructor(readonly policy: RateLimitPolicy) { }
+
+    /**
+     * Runs the task once a slot is available. Rejects without running the task if the signal is aborted while queued.
+     */
+    async schedule<T>(task: () => Promise<T>, signal: AbortSignal): Promise<T> {
+        await this.acquire(signal);
+
+        try {
+            return await task();
+        } finally {
+            this._active--;
+            this.wakeAll();
+        }
+    }
+
+    private async acquire(signal: AbortSignal): Promise<void> {
+        const interval = this.policy.interval ?? 60_000;
+
+        for (; ;) {
+            if (signal.aborted) throw new Error("Rate limited request was aborted.");
+
+            const now = Date.now();
+            this._startTimes = this._startTimes.filter((startTime) => now - startTime < interval);
+
+            const concurrencyLimited = this.policy.maxConcurrentRequests !== undefined
+                && this._active >= this.policy.maxConcurrentRequests,
+                rateLimited = this.policy.maxRequestsPerInterval !== undefined
+                    && this._startTimes.length >= this.policy.maxRequestsPerInterval;
+
+            if (!concurrencyLimited && !rateLimited) {
+                this._active++;
+                this._startTimes.push(now);
+                return;
+            }
+
+            // Wait for a running task to finish, the oldest request to leave the window, or the signal to abort
+            await new Promise<void>((resolve) => {
+                const wake = () => {
+                    clearTimeout(timeoutHandler);
+                    signal.removeEventListener("abort", wake);
+                    this._waiting = this._waiting.filter((waiting) => waiting !== wake);
+                    resolve();
+                };
+
+                const timeoutHandler = rateLimited
+                    ? setTimeout(wake, this._startTimes[0] + interval - now)
+                    : undefined;
+
+                this._waiting.push(wake);
+                signal.addEventListener("abort", wake, { once: true });
+            });
+        }
+    }
+
+    private wakeAll(): void {
+        const waiting = this._waiting;
+        this._waiting = [];
+        waiting.forEach((wake) => wake());
+    }
+}
@@ -0,0 +1,70 @@
+import { ErrorCode, MACError } from "../shared/types";
+
+/**
+ * Retries failed prompts with exponential backoff and jitter
+ */
+export type RetryPolicy = {
+    /**
+     * Number of retries after the first attempt, default is 2
+     */
+    maxRetries?: number;
+    /**
+     * Delay before the first retry in milliseconds, default is 500ms
+     */
+    initialDelay?: number;
+    /**
+     * Upper limit of the delay between retries in milliseconds, default is 10 seconds
+     */
+    maxDelay?: number;
+    /**
+     * Multiplier applied to the delay after every retry, default is 2
+     */
+    backoffFactor?: number;
+    /**
+     * Fraction (0 - 1) of each delay that is randomized to spread out retries, default is 0.5
+     */
+    jitter?: number;
+    /**
+     * Decides whether a failure should be retried. The error is either the error thrown by the
+     * `promptExecutor`, or the `error` message of its response. Defaults to `isRetryableBridgeError`.
+     */
+    isRetryable?: (error: unknown, attempt: number) => boolean;
+};
+
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+const RETRYABLE_NETWORK_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"]);
+
+const RETRYABLE_MESSAGE = /\b(408|429|50[0234])\b|rate.?limit|too many requests|overloaded|timed? ?out|temporarily unavailable/i;
+
+/**
+ * Default classification of transient provider failures: rate limits, timeouts, server errors and
+ * network errors are retryable
+ */
+export function isRetryableBridgeError(error: unknown): boolean {
+    if (error instanceof MACError) return error.code === ErrorCode.Timeout;
+
+    if (typeof error === "object" && error !== null) {
+        const { status, code, message } = error as { status?: unknown, code?: unknown, message?: unknown };
+
+        if (typeof status === "number") return RETRYABLE_STATUS_CODES.has(status);
+        if (typeof code === "string" && RETRYABLE_NETWORK_CODES.has(code)) return true;
+        if (typeof message === "string") return RETRYABLE_MESSAGE.test(message);
+    }
+
+    return typeof error === "string" && RETRYABLE_MESSAGE.test(error);
+}
+
+/**
+ * Delay before the given retry (starting at 1) in milliseconds
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+    const initialDelay = policy.initialDelay ?? 500,
+        maxDelay = policy.maxDelay ?? 10_000,
+        backoffFactor = policy.backoffFactor ?? 2,
+        jitter = Math.min(Math.max(policy.jitter ?? 0.5, 0), 1);
+
+    const backoff = Math.min(initialDelay * backoffFactor ** (retry - 1), maxDelay);
+
+    return Math.round(backoff * (1 - jitter * Math.random()));
+}
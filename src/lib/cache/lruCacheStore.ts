@@ -0,0 +1,39 @@
+/**
+ * Keeps the most recently used values in memory, evicting the least recently used value once
+ * `maxEntries` is exceeded. Values are copied in and out so cached results can't be mutated.
+ */
+export class LRUCacheStore<Value> {
+    private entries: Map<string, { value: Value, expiresAt: number }> = new Map();
+
+    constructor(private maxEntries: number = 100) { }
+
+    async get(key: string): Promise<Value | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) return undefined;
+
+        // Re-insert so the entry becomes the most recently used
+        this.entries.set(key, entry);
+        return structuredClone(entry.value);
+    }
+
+    async set(key: string, value: Value, ttl: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttl });
+
+        while (this.entries.size > this.maxEntries) {
+            const leastRecentlyUsed = this.entries.keys().next().value as string;
+            this.entries.delete(leastRecentlyUsed);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
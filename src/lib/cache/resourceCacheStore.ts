@@ -0,0 +1,23 @@
+import { ResourceCacheStoreI } from "../shared/interfaces";
+import { ReadResourceResult, ResourceCacheOptions } from "../shared/types";
+import { LRUCacheStore } from "./lruCacheStore";
+
+/**
+ * Default time to live of cached resource reads, 1 minute
+ */
+export const DEFAULT_RESOURCE_CACHE_TTL = 60_000;
+
+/**
+ * Keeps the most recently read resources in memory
+ */
+export class LRUResourceCacheStore extends LRUCacheStore<ReadResourceResult> implements ResourceCacheStoreI { }
+
+/**
+ * Resolves the cache options of a resource (template), reads are kept in an in-memory LRU store unless another store is given
+ */
+export function createResourceCache(options: ResourceCacheOptions): { ttl: number, store: ResourceCacheStoreI } {
+    return {
+        ttl: options.ttl ?? DEFAULT_RESOURCE_CACHE_TTL,
+        store: options.store ?? new LRUResourceCacheStore(options.maxEntries)
+    };
+}
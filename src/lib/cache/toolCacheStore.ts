@@ -0,0 +1,31 @@
+import { ToolCacheStoreI } from "../shared/interfaces";
+import { ToolCacheOptions, ToolResult } from "../shared/types";
+import { stableStringify } from "../shared/utils";
+import { LRUCacheStore } from "./lruCacheStore";
+
+/**
+ * Default time to live of cached tool results, 5 minutes
+ */
+export const DEFAULT_TOOL_CACHE_TTL = 5 * 60_000;
+
+/**
+ * Keeps the most recently used tool results in memory
+ */
+export class LRUToolCacheStore extends LRUCacheStore<ToolResult> implements ToolCacheStoreI { }
+
+/**
+ * Resolves the cache options of a tool, results are kept in an in-memory LRU store unless another store is given
+ */
+export function createToolCache(options: ToolCacheOptions): { ttl: number, store: ToolCacheStoreI } {
+    return {
+        ttl: options.ttl ?? DEFAULT_TOOL_CACHE_TTL,
+        store: options.store ?? new LRUToolCacheStore(options.maxEntries)
+    };
+}
+
+/**
+ * Cache key of a tool call, arguments are expected to be validated by the tool's input schema
+ */
+export function toolCacheKey(name: string, args: unknown): string {
+    return `${name}:${stableStringify(args)}`;
+}
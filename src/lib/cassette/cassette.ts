@@ -0,0 +1,242 @@
+import { readFile, writeFile } from "fs/promises";
+import {
+    Cassette,
+    CassetteInteraction,
+    CassetteSchema,
+    CompleteRequest,
+    CompleteResult,
+    ErrorCode,
+    MACError,
+    MacInput,
+    MacOutput,
+    ReadResourceRequest,
+    ReadResourceResult,
+    RunResult,
+    SerializedError,
+    ToolRequest,
+    ToolResult
+} from "../shared/types";
+import { PromptStep } from "../events/runEvents";
+
+/**
+ * Difference between a replayed run and its recording
+ */
+export type CassetteDivergence = {
+    kind: CassetteInteraction["kind"] | "output";
+    message: string;
+};
+
+/**
+ * Action log timestamps always differ between runs, so they're ignored when comparing prompts
+ */
+function normalizePrompt(prompt: string): string {
+    return prompt.replace(/(timeExecuted[^0-9]{0,6})\d+/g, "$1");
+}
+
+type InteractionOf<Kind extends CassetteInteraction["kind"]> = Extract<CassetteInteraction, { kind: Kind }>;
+
+export function serializeError(error: unknown): SerializedError {
+    if (error instanceof MACError) {
+        // Keep the original message so the replayed error isn't prefixed twice
+        const prefix = `MAC error ${error.code}: `;
+
+        return {
+            message: error.message.startsWith(prefix) ? error.message.slice(prefix.length) : error.message,
+            code: error.code
+        };
+    }
+
+    return { message: error instanceof Error ? error.message : String(error) };
+}
+
+export function deserializeError(error: SerializedError): Error {
+    return error.code !== undefined
+        ? new MACError(error.code, error.message)
+        : new Error(error.message);
+}
+
+/**
+ * Captures every bridge call, tool execution and resource read of a run. Pass a new recorder to
+ * each run through `RunOptions.recorder`, then save the cassette once the run has finished.
+ */
+export class CassetteRecorder {
+    private _interactions: CassetteInteraction[] = [];
+    private _cassette?: Cassette;
+
+    record(interaction: CassetteInteraction): void {
+        this._interactions.push(structuredClone(interaction));
+    }
+
+    /**
+     * Completes the cassette with the run's prompt and final output
+     */
+    finish(prompt: string, result: RunResult): void {
+        this._cassette = {
+            version: 1,
+            prompt,
+            recordedAt: result.startTime,
+            interactions: [...this._interactions],
+            output: result.output,
+            ...(result.errorCode !== undefined && { errorCode: result.errorCode })
+        };
+    }
+
+    toJSON(): Cassette {
+        if (!this._cassette) throw new Error("Cassette: the recorded run hasn't finished yet.");
+        return this._cassette;
+    }
+
+    async save(filePath: string): Promise<void> {
+        await writeFile(filePath, JSON.stringify(this.toJSON(), null, 2), "utf-8");
+    }
+}
+
+/**
+ * Replays a recorded run: bridges, tools, resources and completions aren't called, their recorded responses are
+ * returned instead. Any difference between the replayed run and the recording is flagged as a
+ * divergence, and throws a `ReplayDivergence` error in strict mode. Runs also fail with a
+ * `ReplayDivergence` error when no recorded response is left to replay.
+ */
+export class CassettePlayer {
+    readonly cassette: Cassette;
+    readonly strict: boolean;
+
+    private _divergences: CassetteDivergence[] = [];
+    private _used: Set<number> = new Set();
+
+    constructor(cassette: unknown, { strict }: { strict?: boolean } = {}) {
+        this.cassette = CassetteSchema.parse(cassette);
+        this.strict = strict ?? false;
+    }
+
+    static async load(filePath: string, options: { strict?: boolean } = {}): Promise<CassettePlayer> {
+        return new CassettePlayer(JSON.parse(await readFile(filePath, "utf-8")), options);
+    }
+
+    get divergences(): CassetteDivergence[] {
+        return [...this._divergences];
+    }
+
+    get hasDiverged(): boolean {
+        return this._divergences.length > 0;
+    }
+
+    /**
+     * Bridge calls are replayed in their recorded order
+     */
+    replayBridge(bridge: string, step: PromptStep, input: MacInput): MacOutput {
+        const interaction = this.take("bridge", () => true);
+
+        if (!interaction) {
+            throw this.missing("bridge", `No recorded response left for the ${step} prompt sent to bridge: ${bridge}.`);
+        }
+        if (interaction.bridge !== bridge || interaction.step !== step) {
+            this.diverge("bridge", `Expected the ${interaction.step} prompt on bridge: ${interaction.bridge}, received the ${step} prompt on bridge: ${bridge}.`);
+        }
+        else if (normalizePrompt(interaction.input.input) !== normalizePrompt(input.input)) {
+            this.diverge("bridge", `The ${step} prompt sent to bridge: ${bridge} differs from the recorded prompt.`);
+        }
+
+        return this.replay(interaction);
+    }
+
+    /**
+     * Tool executions are matched by name and arguments, since batched requests may finish in any order
+     */
+    replayTool(request: ToolRequest): ToolResult {
+        const args = JSON.stringify(request.arguments),
+            interaction = this.take("tool", (tool) => tool.name === request.name && JSON.stringify(tool.arguments) === args)
+                ?? this.take("tool", (tool) => tool.name === request.name);
+
+        if (!interaction) {
+            throw this.missing("tool", `No recorded response left for tool: ${request.name}.`);
+        }
+        if (JSON.stringify(interaction.arguments) !== args) {
+            this.diverge("tool", `Tool: ${request.name} was called with ${args}, the recording used ${JSON.stringify(interaction.arguments)}.`);
+        }
+
+        return this.replay(interaction);
+    }
+
+    replayResource(request: ReadResourceRequest): ReadResourceResult {
+        const interaction = this.take("resource", (resource) => resource.uri === request.uri);
+
+        if (!interaction) {
+            throw this.missing("resource", `No recorded response left for resource: ${request.uri}.`);
+        }
+
+        return this.replay(interaction);
+    }
+
+    /**
+     * Completions are matched by template and variable, then by the partial value
+     */
+    replayCompletion(request: CompleteRequest): CompleteResult {
+        const { template, variable, value } = request,
+            interaction = this.take("completion", (completion) =>
+                completion.template === template && completion.variable === variable && completion.value === value
+            ) ?? this.take("completion", (completion) => completion.template === template && completion.variable === variable);
+
+        if (!interaction) {
+            throw this.missing("completion", `No recorded completion left for ${template}: ${variable}.`);
+        }
+        if (interaction.value !== value) {
+            this.diverge("completion", `Completion of ${template}: ${variable} was requested for "${value}", the recording used "${interaction.value}".`);
+        }
+
+        return this.replay(interaction);
+    }
+
+    /**
+     * Flags recorded interactions that were never replayed and differences in the final output, never throws
+     */
+    finish(result: RunResult): void {
+        this.cassette.interactions.forEach((interaction, index) => {
+            if (this._used.has(index)) return;
+
+            const name = interaction.kind === "bridge" ? interaction.bridge
+                : interaction.kind === "tool" ? interaction.name
+                    : interaction.kind === "completion" ? `${interaction.template}: ${interaction.variable}`
+                        : interaction.uri;
+
+            this._divergences.push({ kind: interaction.kind, message: `Recorded ${interaction.kind} interaction: ${name} was never replayed.` });
+        });
+
+        if (JSON.stringify(result.output) !== JSON.stringify(this.cassette.output)) {
+            this._divergences.push({ kind: "output", message: "The final output differs from the recorded output." });
+        }
+    }
+
+    private take<Kind extends CassetteInteraction["kind"]>(
+        kind: Kind,
+        matches: (interaction: InteractionOf<Kind>) => boolean
+    ): InteractionOf<Kind> | undefined {
+        const index = this.cassette.interactions.findIndex((interaction, index) =>
+            !this._used.has(index)
+            && interaction.kind === kind
+            && matches(interaction as InteractionOf<Kind>)
+        );
+
+        if (index === -1) return undefined;
+
+        this._used.add(index);
+        return structuredClone(this.cassette.interactions[index]) as InteractionOf<Kind>;
+    }
+
+    private replay<Result>(interaction: { result?: Result, output?: Result, error?: SerializedError }): Result {
+        if (interaction.error) throw deserializeError(interaction.error);
+
+        return (interaction.result ?? interaction.output) as Result;
+    }
+
+    private diverge(kind: CassetteDivergence["kind"], message: string): void {
+        this._divergences.push({ kind, message });
+
+        if (this.strict) throw new MACError(ErrorCode.ReplayDivergence, message);
+    }
+
+    private missing(kind: CassetteDivergence["kind"], message: string): MACError {
+        this._divergences.push({ kind, message });
+        return new MACError(ErrorCode.ReplayDivergence, message);
+    }
+}
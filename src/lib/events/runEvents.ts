@@ -0,0 +1,128 @@
+import { EventEmitter } from "events";
+import {
+    CompleteResult,
+    ErrorCode,
+    MacInput,
+    MacOutput,
+    ReadResourceResult,
+    RunResult,
+    ToolResult
+} from "../shared/types";
+import { ContextBudgetStrategy } from "../orchestrator/contextBudget";
+import { CassetteDivergence } from "../cassette/cassette";
+
+/**
+ * The prompt a bridge is being asked to answer
+ */
+export type PromptStep = "discovery" | "context-aware" | "repair";
+
+/**
+ * Payloads of the events emitted during a prompt run, keyed by event type
+ */
+export type RunEventMap = {
+    "run-started": { prompt: string, bridge: string };
+    "prompt-sent": { bridge: string, step: PromptStep, input: MacInput };
+    "llm-response": { bridge: string, step: PromptStep, response: MacOutput };
+    "tool-started": { name: string, arguments: Record<string, unknown> };
+    "tool-finished": { name: string, arguments: Record<string, unknown>, result: ToolResult, duration: number, cached: boolean };
+    "tool-failed": { name: string, arguments: Record<string, unknown>, error: string, duration: number };
+    "resource-read": { uri: string, duration: number, result?: ReadResourceResult, error?: string, cached?: boolean };
+    "resource-completion": { template: string, variable: string, value: string, duration: number, result?: CompleteResult, error?: string };
+    "repair-attempt": { bridge: string, attempt: number, error: string };
+    "bridge-retry": { bridge: string, step: PromptStep, attempt: number, delay: number, error: string };
+    "bridge-routed": { from: string, to: string, step: PromptStep };
+    "bridge-failover": { from: string, to: string, step: PromptStep, errorCode: ErrorCode, error?: string };
+    "context-budget-applied": { bridge: string, step: PromptStep, tokens: number, maxTokens: number, strategies: ContextBudgetStrategy[] };
+    "replay-divergence": CassetteDivergence;
+    "final-answer": { result: RunResult };
+};
+
+export type RunEventType = keyof RunEventMap;
+
+export type RunEvent<T extends RunEventType = RunEventType> = {
+    [K in T]: {
+        type: K;
+        runId: string;
+        timestamp: number;
+    } & RunEventMap[K]
+}[T];
+
+/**
+ * Event emitted for every run event regardless of its type
+ */
+export const ANY_RUN_EVENT = "event";
+
+/**
+ * Emits each run event under its own type, and under `ANY_RUN_EVENT`
+ */
+export class RunEventEmitter extends EventEmitter {
+    /**
+     * Calls every listener of the event, a failing listener doesn't affect the run or the other listeners
+     */
+    emitEvent(event: RunEvent): void {
+        [...this.rawListeners(event.type), ...this.rawListeners(ANY_RUN_EVENT)].forEach((listener) => {
+            try {
+                listener(event);
+            } catch { }
+        });
+    }
+
+    onEvent<T extends RunEventType>(type: T, listener: (event: RunEvent<T>) => void): this {
+        return this.on(type, listener);
+    }
+
+    offEvent<T extends RunEventType>(type: T, listener: (event: RunEvent<T>) => void): this {
+        return this.off(type, listener);
+    }
+}
+
+/**
+ * Async iterable over the events of a single run. Iteration ends after the `final-answer` event,
+ * and the run's result can be awaited through `result`.
+ */
+export class RunEventStream implements AsyncIterable<RunEvent> {
+    private _queue: RunEvent[] = [];
+    private _waiting: ((value: IteratorResult<RunEvent>) => void)[] = [];
+    private _ended: boolean = false;
+
+    readonly result: Promise<RunResult>;
+
+    /**
+     * @param run Starts the run, forwarding its events to the given listener
+     */
+    constructor(run: (onEvent: (event: RunEvent) => void) => Promise<RunResult>) {
+        this.result = run((event) => this.push(event));
+
+        // End the stream even if the run rejects before the final event
+        this.result.catch(() => undefined).finally(() => this.end());
+    }
+
+    private push(event: RunEvent): void {
+        if (this._ended) return;
+
+        const waiting = this._waiting.shift();
+        if (waiting) waiting({ value: event, done: false });
+        else this._queue.push(event);
+
+        if (event.type === "final-answer") this.end();
+    }
+
+    private end(): void {
+        this._ended = true;
+        this._waiting.forEach((resolve) => resolve({ value: undefined, done: true }));
+        this._waiting = [];
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<RunEvent> {
+        return {
+            next: () => {
+                const event = this._queue.shift();
+
+                if (event) return Promise.resolve({ value: event, done: false });
+                if (this._ended) return Promise.resolve({ value: undefined, done: true });
+
+                return new Promise((resolve) => this._waiting.push(resolve));
+            }
+        };
+    }
+}
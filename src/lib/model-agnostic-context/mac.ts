@@ -1,8 +1,16 @@
-import { ZodRawShape } from "zod";
+import { z, ZodRawShape, ZodTypeAny } from "zod";
 import LLMBridge from "../bridge/llmbridge";
 import Orchestrator from "../orchestrator/orchestrator";
-import { ErrorCode, MACError, ReadResourceCallback, ResourceMetadata, ResourceTemplate, ToolCallback } from "../shared/types";
+import { CompleteResult, ErrorCode, ListOptions, ListResourcesResult, ListResourceTemplatesResult, ListToolsResult, MACError, ReadResourceCallback, ReadResourceTemplateCallback, ResourceCacheOptions, ResourceMetadata, ResourceTemplate, ResourceUpdatedListener, RunResult, ToolCacheOptions, ToolCallback } from "../shared/types";
 import { Policy } from "../policy-manager/policy";
+import PolicyManager from "../policy-manager/policyManager";
+import Registry from "../registry/registry";
+import { RunOptions } from "../orchestrator/runContext";
+import Session from "../session/session";
+import { InMemorySessionStore } from "../session/sessionStore";
+import { BridgeRouterI, PromptBuilderI, PromptRendererI, SessionStoreI } from "../shared/interfaces";
+import { RunEvent, RunEventEmitter, RunEventStream, RunEventType } from "../events/runEvents";
+import { ContentRendererRegistry } from "../prompts/contentRenderers";
 
 /**
  * High level interface for interacting with the model-agnostic-context library.
@@ -16,13 +24,64 @@ import { Policy } from "../policy-manager/policy";
  */
 export default class Mac {
     // Properties
-    private orchestrator: Orchestrator = Orchestrator.instance;
+    private orchestrator: Orchestrator;
 
-    constructor(bridge: LLMBridge) {
+    /**
+     * Where conversation sessions are persisted, sessions are kept in memory by default
+     */
+    public sessionStore: SessionStoreI = new InMemorySessionStore();
+
+    /**
+     * Each Mac instance owns an independent orchestrator, policy manager and registry.
+     *
+     * @param bridge The LLM bridge to use by default
+     * @param options.registry Optional tool and resource registry to share with other Mac instances
+     * @param options.policyManager Optional policy manager to share with other Mac instances
+     */
+    constructor(
+        bridge: LLMBridge,
+        options: {
+            registry?: Registry,
+            policyManager?: PolicyManager
+        } = {}
+    ) {
+        this.orchestrator = new Orchestrator(options);
         this.orchestrator.registerBridge(bridge);
         this.orchestrator.currentBridge = bridge.name;
     }
 
+    /**
+     * The tool and resource registry used by this instance, pass it to another Mac to share it
+     */
+    public get registry(): Registry {
+        return this.orchestrator.registry;
+    }
+
+    /**
+     * The policy manager used by this instance, pass it to another Mac to share it
+     */
+    public get policyManager(): PolicyManager {
+        return this.orchestrator.policyManager;
+    }
+
+    // Events
+    /**
+     * Emits the lifecycle events of every run, listen to `ANY_RUN_EVENT` to receive all of them
+     */
+    public get events(): RunEventEmitter {
+        return this.orchestrator.events;
+    }
+
+    public on<T extends RunEventType>(type: T, listener: (event: RunEvent<T>) => void): this {
+        this.events.onEvent(type, listener);
+        return this;
+    }
+
+    public off<T extends RunEventType>(type: T, listener: (event: RunEvent<T>) => void): this {
+        this.events.offEvent(type, listener);
+        return this;
+    }
+
     // Configuration
     public set maxActionChainLength(length: number) {
         if (length < 1) {
@@ -32,21 +91,84 @@ export default class Mac {
         this.orchestrator.maxActionChainLength = length;
     }
 
+    /**
+     * Maximum number of tool / resource requests from the same LLM turn that are executed at the same time
+     */
+    public set maxConcurrentActions(limit: number) {
+        if (limit < 1) {
+            throw new Error("MAC must be able to execute at least 1 action at a time");
+        }
+
+        this.orchestrator.maxConcurrentActions = limit;
+    }
+
+    /**
+     * Number of times the LLM is reprompted to fix an invalid response before failing, 0 disables repairs
+     */
+    public set maxRepairAttempts(attempts: number) {
+        if (attempts < 0) {
+            throw new Error("MAC repair attempts can't be negative");
+        }
+
+        this.orchestrator.maxRepairAttempts = attempts;
+    }
+
+    /**
+     * Builds the prompts sent to the LLM, bridges with their own prompt builder take precedence
+     */
+    public get promptBuilder(): PromptBuilderI {
+        return this.orchestrator.promptBuilder;
+    }
+
+    public set promptBuilder(builder: PromptBuilderI) {
+        this.orchestrator.promptBuilder = builder;
+    }
+
+    /**
+     * Serializes the prompts sent to the LLM (JSON by default), bridges with their own renderer take precedence
+     */
+    public get promptRenderer(): PromptRendererI {
+        return this.orchestrator.promptRenderer;
+    }
+
+    public set promptRenderer(renderer: PromptRendererI) {
+        this.orchestrator.promptRenderer = renderer;
+    }
+
+    /**
+     * Renderers (by MIME type) of the tool / resource result contents fed back to the LLM, register
+     * your own to handle other types:
+     *
+     * ```typeScript
+     * mac.contentRenderers.register("application/pdf", new PdfTextRenderer());
+     * ```
+     */
+    public get contentRenderers(): ContentRendererRegistry {
+        return this.orchestrator.contentRenderers;
+    }
+
     // Resources
     public addResource(
         resource: {
             name: string,
             uri: string,
             metadata: ResourceMetadata
-            callback: ReadResourceCallback
+            callback: ReadResourceCallback,
+            /**
+             * Caches the resource's reads, reads aren't cached by default
+             */
+            cache?: ResourceCacheOptions
         }) {
-        this.orchestrator
+        const registeredResource = this.orchestrator
             .registerResource(
                 resource.name,
                 resource.uri,
                 resource.metadata,
                 resource.callback
             );
+
+        if (resource.cache) registeredResource.update({ cache: resource.cache });
+        return registeredResource;
     }
 
     public addResourceTemplate(
@@ -54,15 +176,56 @@ export default class Mac {
             name: string,
             template: ResourceTemplate,
             metadata: ResourceMetadata
-            callback: ReadResourceCallback
+            callback: ReadResourceTemplateCallback,
+            /**
+             * Caches the reads of each matching URI, reads aren't cached by default
+             */
+            cache?: ResourceCacheOptions
         }) {
-        this.orchestrator
+        const registeredResourceTemplate = this.orchestrator
             .registerResource(
                 resource.name,
                 resource.template,
                 resource.metadata,
                 resource.callback
             );
+
+        if (resource.cache) registeredResourceTemplate.update({ cache: resource.cache });
+        return registeredResourceTemplate;
+    }
+
+    /**
+     * Candidate values of a resource template's variable starting from a partial value, e.g. to
+     * autocomplete URIs in a client
+     */
+    public async completeResourceVariable(template: string, variable: string, value: string = ""): Promise<CompleteResult> {
+        return this.orchestrator.completeResourceVariable(template, variable, value);
+    }
+
+    /**
+     * Calls the listener whenever the resource at the URI signals that its data changed
+     *
+     * @returns Unsubscribes the listener
+     */
+    public subscribeToResource(uri: string, listener: ResourceUpdatedListener): () => void {
+        return this.orchestrator.subscribeToResource(uri, listener);
+    }
+
+    /**
+     * Signals that the resource at the URI changed: its cached read is invalidated and its subscribers are notified
+     */
+    public async notifyResourceUpdated(uri: string) {
+        await this.orchestrator.notifyResourceUpdated(uri);
+    }
+
+    /**
+     * Clears the cached reads of every resource and resource template
+     */
+    public async clearResourceCache() {
+        await Promise.all([
+            ...Object.values(this.registry.resources),
+            ...Object.values(this.registry.resourceTemplates)
+        ].map((resource) => resource.cache?.store.clear()));
     }
 
     // Tools
@@ -72,9 +235,13 @@ export default class Mac {
             description: string,
             paramsSchema: ParamArgs,
             responseSchema: OutputSchema,
-            callback: ToolCallback<ParamArgs>
+            callback: ToolCallback<ParamArgs>,
+            /**
+             * Caches the tool's results for identical arguments, results aren't cached by default
+             */
+            cache?: ToolCacheOptions
         }) {
-        this.orchestrator
+        const registeredTool = this.orchestrator
             .registerTool(
                 tool.name,
                 tool.description,
@@ -82,6 +249,8 @@ export default class Mac {
                 tool.responseSchema,
                 tool.callback
             );
+
+        if (tool.cache) registeredTool.update({ cache: tool.cache });
     }
 
     public addTools<ParamArgs extends ZodRawShape, OutputSchema extends ZodRawShape>(
@@ -90,7 +259,8 @@ export default class Mac {
             description: string,
             paramsSchema: ParamArgs,
             responseSchema: OutputSchema,
-            callback: ToolCallback<ParamArgs>
+            callback: ToolCallback<ParamArgs>,
+            cache?: ToolCacheOptions
         }[]) {
         tools.forEach((tool) => {
             this.addTool(tool);
@@ -101,6 +271,38 @@ export default class Mac {
         this.orchestrator.removeTool(name);
     }
 
+    /**
+     * Clears the cached results of the given tool, or of every tool
+     */
+    public async clearToolCache(name?: string) {
+        const tools = name ? [this.registry.tools[name]] : Object.values(this.registry.tools);
+        await Promise.all(tools.map((tool) => tool?.cache?.store.clear()));
+    }
+
+    // Catalog
+    /**
+     * Enabled tools with the JSON schemas of their parameters and responses, paged with `nextCursor`:
+     *
+     * ```typeScript
+     * let page = mac.listTools({ pageSize: 20 });
+     * while (page.nextCursor) page = mac.listTools({ cursor: page.nextCursor, pageSize: 20 });
+     * ```
+     */
+    public listTools(options: ListOptions = {}): ListToolsResult {
+        return this.orchestrator.listTools(options);
+    }
+
+    /**
+     * Enabled resources, including the resources listed by resource templates with a `list` callback
+     */
+    public async listResources(options: ListOptions = {}): Promise<ListResourcesResult> {
+        return this.orchestrator.listResources(options);
+    }
+
+    public listResourceTemplates(options: ListOptions = {}): ListResourceTemplatesResult {
+        return this.orchestrator.listResourceTemplates(options);
+    }
+
     // Resources
     // public addResource
 
@@ -150,8 +352,90 @@ export default class Mac {
         this.orchestrator.currentBridge = name;
     }
 
+    /**
+     * Selects the bridge for each prompt step using the bridges' metadata and the `routingHints` of the call,
+     * e.g. `MetadataBridgeRouter`. Every step uses the current bridge if undefined.
+     */
+    public get router(): BridgeRouterI | undefined {
+        return this.orchestrator.router;
+    }
+
+    public set router(router: BridgeRouterI | undefined) {
+        this.orchestrator.router = router;
+    }
+
+    /**
+     * Registered bridges (by name) that retry a step, in order, when the current bridge returns an error,
+     * times out or keeps responding with invalid output
+     */
+    public get fallbackBridges(): string[] {
+        return [...this.orchestrator.fallbackBridges];
+    }
+
+    public set fallbackBridges(names: string[]) {
+        names.forEach((name) => {
+            if (!this.orchestrator.bridges[name]) {
+                throw new Error(`Bridge: ${name} is not a registered bridge.`);
+            }
+        });
+
+        this.orchestrator.fallbackBridges = [...names];
+    }
+
+    // Sessions
+    /**
+     * Creates and persists a new conversation session, pass it to `handlePrompt` to continue the conversation
+     */
+    public async createSession(options: {
+        id?: string,
+        summarizeActions?: boolean,
+        maxHistoryTurns?: number
+    } = {}): Promise<Session> {
+        const session = new Session(options);
+        await this.saveSession(session);
+
+        return session;
+    }
+
+    /**
+     * Restores a previously saved session from the session store
+     */
+    public async loadSession(id: string): Promise<Session | undefined> {
+        const serialized = await this.sessionStore.load(id);
+        return serialized ? Session.fromJSON(serialized) : undefined;
+    }
+
+    public async saveSession(session: Session): Promise<void> {
+        await this.sessionStore.save(session.toJSON());
+    }
+
+    public async deleteSession(id: string): Promise<void> {
+        await this.sessionStore.delete(id);
+    }
+
     // Prompt context injection logic 
-    public async handlePrompt(prompt: string) {
+    /**
+     * Executes the prompt and resolves with the run's final answer validated against the output
+     * schema (as `structuredContent`), final output and action trace:
+     *
+     * ```typeScript
+     * const { structuredContent } = await mac.handlePrompt("Weather in Austin?", {
+     *     outputSchema: z.object({ temperatureC: z.number(), conditions: z.string(), city: z.string() })
+     * });
+     * ```
+     */
+    public async handlePrompt<OutputSchema extends ZodTypeAny>(
+        prompt: string,
+        options: RunOptions & { outputSchema: OutputSchema }
+    ): Promise<RunResult<z.infer<OutputSchema>>>;
+
+    /**
+     * Executes the prompt and resolves with the run's final output and action trace.
+     * The current bridge's completion handler is still invoked with the final output.
+     */
+    public async handlePrompt(prompt: string, options?: RunOptions): Promise<RunResult>;
+
+    public async handlePrompt(prompt: string, options: RunOptions = {}): Promise<RunResult> {
         // Make sure there's an active LLM bridge to use 
         if (!this.orchestrator.currentBridge) {
             throw new MACError(
@@ -160,9 +444,41 @@ export default class Mac {
             );
         }
 
-        await this.orchestrator.executePrompt(
+        const result = await this.orchestrator.executePrompt(
             this.orchestrator.currentBridge,
-            prompt
+            prompt,
+            options
         );
+
+        // Append the run to the conversation and persist it
+        if (options.session) {
+            options.session.addTurn(prompt, result);
+            await this.saveSession(options.session);
+        }
+
+        return result;
+    }
+
+    /**
+     * Executes the prompt while streaming the run's lifecycle events as they happen.
+     *
+     * ```typeScript
+     * const stream = mac.streamPrompt("What's the weather in NYC?");
+     *
+     * for await (const event of stream) {
+     *     if (event.type === "tool-started") console.log(`Calling ${event.name}…`);
+     * }
+     *
+     * const result = await stream.result;
+     * ```
+     */
+    public streamPrompt(prompt: string, options: RunOptions = {}): RunEventStream {
+        return new RunEventStream((onEvent) => this.handlePrompt(prompt, {
+            ...options,
+            onEvent: (event) => {
+                onEvent(event);
+                options.onEvent?.(event);
+            }
+        }));
     }
 }
\ No newline at end of file
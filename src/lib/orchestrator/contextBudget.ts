@@ -0,0 +1,175 @@
+import { TokenizerI } from "../shared/interfaces";
+import { ActionLog } from "../shared/types";
+
+/**
+ * Ways to shrink a prompt that exceeds a bridge's context budget, applied in the given order until
+ * the prompt fits
+ */
+export enum ContextBudgetStrategy {
+    /**
+     * Remove disabled tools, resources and resource templates from the prompt's catalog
+     */
+    DropDisabledCatalogEntries = "drop-disabled-catalog-entries",
+    /**
+     * Clip tool / resource responses larger than `maxResponseTokens`
+     */
+    ClipLargeResponses = "clip-large-responses",
+    /**
+     * Remove the oldest action logs one by one
+     */
+    TruncateOldestActionLogs = "truncate-oldest-action-logs",
+    /**
+     * Remove the oldest conversation turns one by one
+     */
+    TruncateOldestHistory = "truncate-oldest-history"
+}
+
+export const DEFAULT_CONTEXT_BUDGET_STRATEGIES: ContextBudgetStrategy[] = [
+    ContextBudgetStrategy.DropDisabledCatalogEntries,
+    ContextBudgetStrategy.ClipLargeResponses,
+    ContextBudgetStrategy.TruncateOldestActionLogs,
+    ContextBudgetStrategy.TruncateOldestHistory
+];
+
+/**
+ * Size limit of the prompts sent to a bridge
+ */
+export type ContextBudget = {
+    /**
+     * Maximum size of a prompt, measured by the tokenizer
+     */
+    maxTokens: number;
+    /**
+     * Counts the tokens of a prompt, defaults to ~4 characters per token
+     */
+    tokenizer?: TokenizerI;
+    /**
+     * Strategies applied in order when the prompt exceeds the budget
+     */
+    strategies?: ContextBudgetStrategy[];
+    /**
+     * Size that large tool / resource responses are clipped to, default is 500 tokens
+     */
+    maxResponseTokens?: number;
+};
+
+/**
+ * Parts of a prompt that budgeting strategies are allowed to shrink
+ */
+export type BudgetedPromptInputs = {
+    includeDisabledCatalogEntries: boolean;
+    actionLogs: ActionLog[];
+    conversationHistory: string[];
+};
+
+/**
+ * Default tokenizer, approximates tokens from the number of characters
+ */
+export class CharacterTokenizer implements TokenizerI {
+    constructor(private charactersPerToken: number = 4) { }
+
+    count(text: string): number {
+        return Math.ceil(text.length / this.charactersPerToken);
+    }
+}
+
+/**
+ * Builds the prompt from the given inputs, shrinking the inputs with the budget's strategies
+ * until the rendered prompt fits within the budget. If the prompt still doesn't fit once every
+ * strategy has been applied then the smallest prompt possible is returned.
+ */
+export function applyContextBudget<Prompt>(
+    inputs: BudgetedPromptInputs,
+    buildPrompt: (inputs: BudgetedPromptInputs) => Prompt,
+    renderPrompt: (prompt: Prompt) => string,
+    budget: ContextBudget
+): { prompt: Prompt, tokens: number, appliedStrategies: ContextBudgetStrategy[] } {
+    const tokenizer = budget.tokenizer ?? new CharacterTokenizer(),
+        strategies = budget.strategies ?? DEFAULT_CONTEXT_BUDGET_STRATEGIES,
+        maxResponseTokens = budget.maxResponseTokens ?? 500,
+        appliedStrategies: ContextBudgetStrategy[] = [];
+
+    let current: BudgetedPromptInputs = {
+        ...inputs,
+        actionLogs: [...inputs.actionLogs],
+        conversationHistory: [...inputs.conversationHistory]
+    },
+        prompt = buildPrompt(current),
+        tokens = tokenizer.count(renderPrompt(prompt));
+
+    const measure = () => {
+        prompt = buildPrompt(current);
+        tokens = tokenizer.count(renderPrompt(prompt));
+        return tokens <= budget.maxTokens;
+    };
+
+    for (const strategy of strategies) {
+        if (tokens <= budget.maxTokens) break;
+
+        switch (strategy) {
+            case ContextBudgetStrategy.DropDisabledCatalogEntries:
+                if (!current.includeDisabledCatalogEntries) continue;
+
+                current = { ...current, includeDisabledCatalogEntries: false };
+                measure();
+                break;
+
+            case ContextBudgetStrategy.ClipLargeResponses: {
+                const clippedLogs = current.actionLogs.map((actionLog) => clipActionLog(actionLog, maxResponseTokens, tokenizer));
+                if (clippedLogs.every((actionLog, index) => actionLog === current.actionLogs[index])) continue;
+
+                current = { ...current, actionLogs: clippedLogs };
+                measure();
+                break;
+            }
+
+            case ContextBudgetStrategy.TruncateOldestActionLogs:
+                if (current.actionLogs.length === 0) continue;
+
+                do {
+                    current = { ...current, actionLogs: current.actionLogs.slice(1) };
+                } while (!measure() && current.actionLogs.length > 0);
+                break;
+
+            case ContextBudgetStrategy.TruncateOldestHistory:
+                if (current.conversationHistory.length === 0) continue;
+
+                do {
+                    current = { ...current, conversationHistory: current.conversationHistory.slice(1) };
+                } while (!measure() && current.conversationHistory.length > 0);
+                break;
+        }
+
+        appliedStrategies.push(strategy);
+    }
+
+    return { prompt, tokens, appliedStrategies };
+}
+
+/**
+ * Replaces the response of the action log with a clipped preview if it exceeds the token limit
+ */
+function clipActionLog(
+    actionLog: ActionLog,
+    maxResponseTokens: number,
+    tokenizer: TokenizerI
+): ActionLog {
+    if (!actionLog.response) return actionLog;
+
+    const response = JSON.stringify(actionLog.response),
+        tokens = tokenizer.count(response);
+
+    if (tokens <= maxResponseTokens) return actionLog;
+
+    // Keep the same proportion of characters as the proportion of allowed tokens
+    const previewLength = Math.floor(response.length * (maxResponseTokens / tokens));
+
+    return {
+        ...actionLog,
+        response: {
+            clipped: true,
+            originalTokens: tokens,
+            preview: response.slice(0, previewLength)
+        }
+    };
+}
@@ -1,7 +1,8 @@
 import LLMBridge from "../bridge/llmbridge";
 import {
     z,
-    ZodRawShape
+    ZodRawShape,
+    ZodTypeAny
 } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import {
@@ -12,47 +13,160 @@ import {
     MACError,
     ErrorCode,
     MacDiscoveryOutputSchema,
-    ActionLog,
     LLMContextAwareOutputSchema,
-    ContextAwarePrompt,
-    DiscoveryPrompt,
-    LLMMessageSchema,
     RegisteredResource,
     RegisteredResourceTemplate,
     ReadResourceCallback,
     ReadResourceTemplateCallback,
     ResourceMetadata,
     ResourceTemplate,
+    ResourceUpdatedListener,
     ReadResourceRequest,
     ReadResourceResult,
-    RequestTypes
+    RequestTypes,
+    RunResult,
+    MacOutput,
+    MacInput,
+    ActionLog,
+    ActionRequest,
+    Attachment,
+    AttachmentSchema,
+    ReadResourceResultSchema,
+    CompleteRequest,
+    ListOptions,
+    ListResourcesResult,
+    ListResourcesResultSchema,
+    ListResourceTemplatesResult,
+    ListResourceTemplatesResultSchema,
+    ListToolsResult,
+    ListToolsResultSchema,
+    Resource,
+    CompleteResult,
+    RequestExtra,
+    ToolCall,
+    ToolCallSchema,
+    ToolDefinition
 } from "../shared/types";
 import PolicyManager from "../policy-manager/policyManager";
-import { extractValidJSON } from "../shared/utils";
+import Registry from "../registry/registry";
+import RunContext, { isRunOutcome, RunOptions, RunOutcome } from "./runContext";
+import { PromptStep, RunEventEmitter } from "../events/runEvents";
+import { applyContextBudget, BudgetedPromptInputs } from "./contextBudget";
+import { delay, extractValidJSON, mapWithConcurrency, raceWithSignal } from "../shared/utils";
+import { isRetryableBridgeError, retryDelay } from "../bridge/retryPolicy";
+import { CassettePlayer, serializeError } from "../cassette/cassette";
+import { createToolCache, toolCacheKey } from "../cache/toolCacheStore";
+import { createResourceCache } from "../cache/resourceCacheStore";
+import { ContentRendererRegistry, RenderableContent } from "../prompts/contentRenderers";
+import { PagedSource, paginate, paginateSources } from "../shared/pagination";
+import { contentParts, contentText, mediaParts } from "../shared/contentParts";
+import { BridgeRouterI, PromptBuilderI, PromptRendererI } from "../shared/interfaces";
+import { DefaultPromptBuilder } from "../prompts/promptBuilder";
+import { JsonPromptRenderer } from "../prompts/promptRenderer";
+import { promptToMessages, repairToMessages } from "../prompts/promptMessages";
+
+/**
+ * Bridge failures that hand the prompt over to the next fallback bridge
+ */
+const FAILOVER_ERROR_CODES: Set<ErrorCode> = new Set([
+    ErrorCode.BridgeError,
+    ErrorCode.Timeout,
+    ErrorCode.InvalidResponse
+]);
+
+/**
+ * Context-aware response, with the final answer in `structuredContent` for runs with an output schema
+ */
+type ContextAwareOutput = z.infer<typeof LLMContextAwareOutputSchema> & { structuredContent?: unknown };
+
+/**
+ * Discovery responses must request context or report an error, e.g. `{}` is repaired like an invalid response
+ */
+const DiscoveryOutputSchema = MacDiscoveryOutputSchema.superRefine((output, ctx) => {
+    const hasRequests = Boolean(output.toolRequest || output.resourceRequest || output.requests?.length);
+
+    if (!hasRequests && !output.error) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "The response must contain 'requests', 'toolRequest', 'resourceRequest' or 'error'"
+        });
+    }
+});
+
+/**
+ * Context-aware responses must request more context, answer or report an error
+ */
+const ContextAwareOutputSchema = LLMContextAwareOutputSchema.superRefine((output, ctx) => {
+    const hasRequests = Boolean(output.toolInvocationRequest || output.requests?.length);
+
+    if (!hasRequests && !output.error && !output.content && !output.embeddedContentResponse) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "The response must contain 'content', 'embeddedContentResponse', 'requests', 'toolInvocationRequest' or 'error'"
+        });
+    }
+});
 
-class Orchestrator {
-    static instance: Orchestrator = new Orchestrator();
+/**
+ * A step's prompt, built for a bridge from the inputs its context budget is allowed to shrink
+ */
+type BudgetedPrompt = {
+    inputs: (bridge: LLMBridge) => BudgetedPromptInputs;
+    build: (bridge: LLMBridge, inputs: BudgetedPromptInputs) => object;
+};
+
+/**
+ * Completions return at most 100 candidate values
+ */
+const MAX_COMPLETION_VALUES = 100;
 
+class Orchestrator {
     // Constraints
-    policyManager: PolicyManager = new PolicyManager();
+    policyManager: PolicyManager;
     // Default is 10 consecutive actions
     maxActionChainLength = 10;
+    // Default is 2 attempts to fix an invalid response before failing
+    maxRepairAttempts = 2;
+    // Default is 4 tool / resource requests executed at the same time
+    maxConcurrentActions = 4;
 
-    // Resources
-    private _registeredResources: { [name: string]: RegisteredResource } = {};
-    private _registeredResourceTemplates: {
-        [name: string]: RegisteredResourceTemplate;
-    } = {};
+    // Tools & Resources
+    readonly registry: Registry;
 
-    // Tools
-    private _registeredTools: { [name: string]: RegisteredTool } = {};
+    // Prompts, bridges can override these with their own builder / renderer
+    promptBuilder: PromptBuilderI = new DefaultPromptBuilder();
+    promptRenderer: PromptRendererI = new JsonPromptRenderer();
+    /**
+     * Renders the content of tool / resource results by MIME type before they're fed back to the LLM
+     */
+    contentRenderers: ContentRendererRegistry = ContentRendererRegistry.withDefaults();
+
+    // Events
+    readonly events: RunEventEmitter = new RunEventEmitter();
 
     // Bridges
+    /**
+     * Bridges (by name) that take over a run, in order, when the current bridge fails
+     */
+    fallbackBridges: string[] = [];
+    /**
+     * Selects the bridge for each prompt step, every step uses the current bridge if undefined
+     */
+    router?: BridgeRouterI;
     private _registeredBridges: { [name: string]: LLMBridge } = {};
     private _currentBridge?: LLMBridge
 
-    // Logging
-    private _actionLogs: ActionLog[] = [];
+    /**
+     * @param options.registry Tool and resource registry to use, pass an existing registry to share it between orchestrators
+     * @param options.policyManager Policy manager to use, pass an existing manager to share policies between orchestrators
+     */
+    constructor(options: {
+        registry?: Registry,
+        policyManager?: PolicyManager
+    } = {}) {
+        this.registry = options.registry ?? new Registry();
+        this.policyManager = options.policyManager ?? new PolicyManager();
+    }
 
     registerBridge(bridge: LLMBridge): void {
         if (this._registeredBridges[bridge.name]) {
@@ -89,6 +203,7 @@ class Orchestrator {
 
         // Deregister the bridge
         delete this._registeredBridges[name];
+        this.fallbackBridges = this.fallbackBridges.filter((fallback) => fallback !== name);
 
         // Set new bridge from the available pool as an auto fallback
         if (!this.currentBridge && Object.keys(this.bridges).length > 1) {
@@ -97,12 +212,13 @@ class Orchestrator {
     }
 
     // Prompt Execution
-    async executePrompt(targetBridge: string, basePrompt: string): Promise<void> {
+    async executePrompt(
+        targetBridge: string,
+        basePrompt: string,
+        options: RunOptions = {}
+    ): Promise<RunResult> {
         const bridge = this.bridges[targetBridge];
 
-        // Pre-prompt setup
-        this.clearActionLogs();
-
         if (!bridge) {
             throw new MACError(
                 ErrorCode.BridgeMissing,
@@ -110,230 +226,1016 @@ class Orchestrator {
             );
         }
 
+        const attachments = z.array(AttachmentSchema).safeParse(options.attachments ?? []);
+
+        if (!attachments.success) {
+            throw new MACError(
+                ErrorCode.InvalidParams,
+                `Invalid attachments: ${attachments.error.message}`
+            );
+        }
+
+        const fallbackBridges = this.fallbackBridges
+            .filter((name) => name !== bridge.name && this._registeredBridges[name])
+            .map((name) => this._registeredBridges[name]);
+
+        // Every run gets its own execution state
+        const context = new RunContext(bridge, fallbackBridges, {
+            ...options,
+            onEvent: (event) => {
+                this.events.emitEvent(event);
+
+                // A failing listener shouldn't fail the run
+                try {
+                    options.onEvent?.(event);
+                } catch { }
+            }
+        });
+
+        context.emit("run-started", { prompt: basePrompt, bridge: bridge.name });
+
+        let outcome: RunOutcome;
+
         try {
-            const firstRequest = (await this.discoveryPrompt(bridge, basePrompt));
+            const firstRequests = (await this.discoveryPrompt(basePrompt, context));
 
-            // First request was valid, starting prompt chain to obtain final context enriched answer
-            if (firstRequest) await this.contextAwarePrompt(bridge, basePrompt, firstRequest);
+            // First requests were valid, starting prompt chain to obtain final context enriched answer
+            outcome = isRunOutcome(firstRequests)
+                ? firstRequests
+                : await this.contextAwarePrompt(basePrompt, firstRequests, context);
         }
         catch (e) {
-            console.error(e);
+            outcome = {
+                output: { error: e instanceof Error ? e.message : String(e) },
+                errorCode: e instanceof MACError ? e.code : ErrorCode.InternalError
+            };
         }
+
+        // The bridge that answered last, fallback bridges may have taken over during the run
+        const finalBridge = context.bridge;
+
+        // Completion handler is still invoked for backwards compatibility
+        finalBridge.completionHandler(outcome.output);
+
+        const result = context.toResult(finalBridge.name, outcome);
+
+        options.recorder?.finish(basePrompt, result);
+        if (context.player) this.replayed(context, context.player, (player) => player.finish(result));
+        context.emit("final-answer", { result });
+
+        return result;
     }
 
     async discoveryPrompt(
-        bridge: LLMBridge,
-        basePrompt: string
-    ): Promise<ReadResourceRequest | ToolRequest | undefined> {
-        const discoveryPromptStructure: DiscoveryPrompt = {
-            task: `
-            Generate a structured JSON response to the given prompt using the given checklist, policies, context, available tools and resources. 
-            The tool you select will invoked for you using the parameters you choose, and the resulting data will be fed 
-            back to you as context in a follow-up prompt.
-            `,
-            checklist: [
-                "Follow the system policies",
-                "Can the user's prompt be answered in accordance with the policies described? (if any)",
-                "Are the available tools sufficient enough to answer the prompt?",
-                "Can the user's prompt be answered without exceeding the maximum allowed amount of sequential actions (e.g. tool requests)?",
-                "If a valid response is not possible fail gracefully and generate a descriptive error message for the end user.",
-                "If a valid response is possible then select the tool you wish to use, and provide the parameters you wish to plug in for them."
-            ],
-            maxSequentialActions: this.maxActionChainLength,
-            systemPolicies: this.policyManager.systemPoliciesToString(),
-            userPolicies: this.policyManager.activePoliciesToString(),
-            resources: this.registeredResourcesToString(),
-            resourceTemplates: this.registeredResourceTemplatesToString(),
-            tools: this.registeredToolsToString(),
-            responseSchema: zodToJsonSchema(MacDiscoveryOutputSchema),
-            errorCodes: ErrorCode,
-            promptToAnswer: basePrompt
+        basePrompt: string,
+        context: RunContext
+    ): Promise<ActionRequest[] | RunOutcome> {
+        const budgetedInputs: BudgetedPromptInputs = {
+            includeDisabledCatalogEntries: true,
+            actionLogs: [],
+            conversationHistory: context.conversationHistory ?? []
         };
 
-        const res = await bridge.promptExecutor({
-            input: JSON.stringify(discoveryPromptStructure)
-        });
+        const discoveryPrompt: BudgetedPrompt = {
+            inputs: () => budgetedInputs,
+            build: (bridge, inputs) => this.promptBuilderFor(bridge).buildDiscoveryPrompt({
+                maxSequentialActions: this.maxActionChainLength,
+                systemPolicies: this.policyManager.systemPoliciesToString(),
+                userPolicies: this.policyManager.activePoliciesToString(),
+                resources: this.registeredResourcesToString(inputs.includeDisabledCatalogEntries),
+                resourceTemplates: this.registeredResourceTemplatesToString(inputs.includeDisabledCatalogEntries),
+                tools: this.registeredToolsToString(inputs.includeDisabledCatalogEntries),
+                responseSchema: zodToJsonSchema(DiscoveryOutputSchema),
+                errorCodes: ErrorCode,
+                conversationHistory: context.conversationHistory && inputs.conversationHistory,
+                promptToAnswer: basePrompt
+            })
+        };
 
-        // Discovery prompt failed, return early
-        if (res.error) {
-            bridge.completionHandler(res);
-            return;
-        }
+        const discoveryOutput = await this.promptForOutput(
+            basePrompt,
+            discoveryPrompt,
+            DiscoveryOutputSchema,
+            "discovery",
+            context
+        );
 
-        // Parse the LLM's response as a valid JSON
-        const message = LLMMessageSchema.safeParse(res),
-            parsedText = message.data?.content.text,
-            responseJSONString = parsedText ? extractValidJSON(parsedText) : undefined,
-            parsedResponse = responseJSONString ? JSON.parse(responseJSONString) : undefined,
-            discoveryOutput = MacDiscoveryOutputSchema.safeParse(parsedResponse),
-            output = discoveryOutput.data;
+        // Discovery prompt failed, return early
+        if (!discoveryOutput.success) return discoveryOutput.outcome;
 
-        if (discoveryOutput.error) {
-            bridge.completionHandler({
-                error: discoveryOutput.error.message
-            });
-            return;
-        }
+        const output = discoveryOutput.data;
 
         // Possible responses from the LLM
         const error = output?.error,
-            resourceRequest = output?.resourceRequest,
-            toolRequest = output?.toolRequest;
+            requests = this.collectRequests(
+                output?.requests,
+                output?.resourceRequest,
+                output?.toolRequest
+            );
 
         // Custom error message generated
         if (error) {
-            bridge.completionHandler({ error: error.errorMessage });
-        }
-        else if (resourceRequest) {
-            return resourceRequest;
+            return {
+                output: { error: error.errorMessage },
+                errorCode: error.errorCode
+            };
         }
-        // Tool request valid
-        else if (toolRequest) {
-            return toolRequest;
+        // Tool / resource requests valid
+        else if (requests.length > 0) {
+            return requests;
         }
         // Parsing error occurred
         else {
-            bridge.completionHandler({
-                ...res,
-                error: `Internal error encountered. Error Code: ${ErrorCode.InvalidResponse}`
-            });
+            return {
+                output: { error: `Internal error encountered. Error Code: ${ErrorCode.InvalidResponse}` },
+                errorCode: ErrorCode.InvalidResponse
+            };
         }
     }
 
     async contextAwarePrompt(
-        bridge: LLMBridge,
         basePrompt: string,
-        request: ReadResourceRequest | ToolRequest
-    ): Promise<void> {
-        if (this._actionLogs.length > this.maxActionChainLength) {
+        requests: ActionRequest[],
+        context: RunContext
+    ): Promise<RunOutcome> {
+        // Stop the action chain once the run is cancelled
+        context.throwIfCancelled();
+
+        // Every request in the batch counts as a separate action
+        if (context.chainLength + requests.length > this.maxActionChainLength) {
             throw new MACError(
                 ErrorCode.MaxActionChainLengthExceeded,
                 `Maximum action chain length exceeded, increase limit.`
             );
         }
 
+        // Aborted once an action fails, so the rest of the batch stops instead of outliving the run
+        const batch = new AbortController(),
+            abortBatch = () => batch.abort();
+        context.signal.addEventListener("abort", abortBatch, { once: true });
+
+        let failure: RunOutcome | undefined;
+        try {
+            await mapWithConcurrency(
+                requests,
+                this.maxConcurrentActions,
+                async (request) => {
+                    // Actions still running when an earlier action failed don't replace its failure
+                    try {
+                        const outcome = await this.executeAction(request, context, { signal: batch.signal });
+                        if (outcome && !failure && !batch.signal.aborted) failure = outcome;
+                    } catch (error) {
+                        if (failure && !context.isCancelled) return;
+                        throw error;
+                    } finally {
+                        if (failure) batch.abort();
+                    }
+                },
+                batch.signal
+            );
+        } catch (error) {
+            batch.abort();
+            throw error;
+        } finally {
+            context.signal.removeEventListener("abort", abortBatch);
+        }
+
+        // Report the first failed action in the batch, if any
+        if (failure) return failure;
+
+        const contextAwareOutputSchema = this.contextAwareOutputSchemaFor(context);
+
+        // Follow-up prompt, action results are rendered for the bridge before the budget is applied
+        const contextAwarePrompt: BudgetedPrompt = {
+            inputs: (bridge) => ({
+                includeDisabledCatalogEntries: true,
+                actionLogs: this.renderActionLogs(context.chainActionLogs, bridge).actionLogs,
+                conversationHistory: context.conversationHistory ?? []
+            }),
+            build: (bridge, inputs) => this.promptBuilderFor(bridge).buildContextAwarePrompt({
+                actionsTaken: inputs.actionLogs.map((actionLog) => JSON.stringify(actionLog)),
+                maxSequentialActions: this.maxActionChainLength,
+                systemPolicies: this.policyManager.systemPoliciesToString(),
+                userPolicies: this.policyManager.activePoliciesToString(),
+                tools: this.registeredToolsToString(inputs.includeDisabledCatalogEntries),
+                resources: this.registeredResourcesToString(inputs.includeDisabledCatalogEntries),
+                resourceTemplates: this.registeredResourceTemplatesToString(inputs.includeDisabledCatalogEntries),
+                responseSchema: zodToJsonSchema(contextAwareOutputSchema),
+                errorCodes: ErrorCode,
+                conversationHistory: context.conversationHistory && inputs.conversationHistory,
+                promptToAnswer: basePrompt
+            })
+        };
+
+        const contextAwareOutput = await this.promptForOutput(
+            basePrompt,
+            contextAwarePrompt,
+            contextAwareOutputSchema,
+            "context-aware",
+            context,
+            (bridge) => this.renderActionLogs(context.chainActionLogs, bridge).attachments
+        );
+
+        // Follow-up prompt failed for some reason, return early
+        if (!contextAwareOutput.success) return contextAwareOutput.outcome;
+
+        const output = contextAwareOutput.data;
+
+        // Possible responses from the LLM
+        const error = output?.error,
+            nextRequests = this.collectRequests(
+                output?.requests,
+                output?.toolInvocationRequest
+            ),
+            embeddedContentResponse = output?.embeddedContentResponse,
+            content = output?.content,
+            structuredContent = output?.structuredContent;
+
+        // Custom error message generated
+        if (error) {
+            return { output: { error }, errorCode: ErrorCode.InvalidRequest };
+        }
+        // More tools / resources have been requested
+        else if (nextRequests.length > 0) {
+            return this.contextAwarePrompt(basePrompt, nextRequests, context);
+        }
+        // Sufficient context, final output 
+        else if (output && context.outputSchema) {
+            return { output, structuredContent };
+        }
+        else if (output && (content || embeddedContentResponse)) {
+            return { output };
+        }
+        // Parsing error occurred
+        else {
+            return {
+                output: { error: `Internal error encountered. Error Code: ${ErrorCode.InvalidResponse}` },
+                errorCode: ErrorCode.InvalidResponse
+            };
+        }
+    }
+
+    /**
+     * Runs with an output schema must answer with `structuredContent` matching the schema, any other
+     * final answer is repaired like an invalid response
+     */
+    private contextAwareOutputSchemaFor(context: RunContext): z.ZodType<ContextAwareOutput> {
+        if (!context.outputSchema) return ContextAwareOutputSchema;
+
+        return LLMContextAwareOutputSchema
+            .extend({
+                structuredContent: context.outputSchema
+                    .nullable()
+                    .optional()
+                    .describe("The final answer, required once the prompt can be answered. It must match this schema exactly.")
+            })
+            .superRefine((output, ctx) => {
+                const isFinalAnswer = !output.error
+                    && !output.toolInvocationRequest
+                    && (output.requests?.length ?? 0) === 0;
+
+                if (isFinalAnswer && (output.structuredContent === undefined || output.structuredContent === null)) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        path: ["structuredContent"],
+                        message: "The final answer must be provided in 'structuredContent', matching its schema"
+                    });
+                }
+            });
+    }
+
+    private promptBuilderFor(bridge: LLMBridge): PromptBuilderI {
+        return bridge.promptBuilder ?? this.promptBuilder;
+    }
+
+    private promptRendererFor(bridge: LLMBridge): PromptRendererI {
+        return bridge.promptRenderer ?? this.promptRenderer;
+    }
+
+    /**
+     * Builds the prompt from the given inputs, shrinking them to fit within the bridge's context budget (if any)
+     */
+    private fitToBudget<Prompt extends object>(
+        bridge: LLMBridge,
+        inputs: BudgetedPromptInputs,
+        buildPrompt: (inputs: BudgetedPromptInputs) => Prompt,
+        step: PromptStep,
+        context: RunContext
+    ): Prompt {
+        if (!bridge.contextBudget) return buildPrompt(inputs);
+
+        const { prompt, tokens, appliedStrategies } = applyContextBudget(
+            inputs,
+            buildPrompt,
+            (prompt) => this.promptRendererFor(bridge).render(prompt),
+            bridge.contextBudget
+        );
+
+        if (appliedStrategies.length > 0) {
+            context.emit("context-budget-applied", {
+                bridge: bridge.name,
+                step,
+                tokens,
+                maxTokens: bridge.contextBudget.maxTokens,
+                strategies: appliedStrategies
+            });
+        }
+
+        return prompt;
+    }
+
+    /**
+     * Executes a single tool / resource request and records it in the run's action logs
+     *
+     * @returns The run's outcome if the action failed, undefined otherwise
+     */
+    private async executeAction(
+        request: ActionRequest,
+        context: RunContext,
+        extra: RequestExtra = context.extra
+    ): Promise<RunOutcome | undefined> {
+        context.throwIfCancelled();
+
+        const startTime = Date.now();
+
         // Tool invoked
         if (request.type == RequestTypes.ToolRequest) {
-            const toolResponse = await this.handleToolRequest(request);
+            context.emit("tool-started", { name: request.name, arguments: request.arguments });
+
+            let toolResponse: ToolResult,
+                cached: boolean;
+            try {
+                ({ result: toolResponse, cached } = await this.runToolRequest(request, context, extra));
+            } catch (error) {
+                context.emit("tool-failed", {
+                    name: request.name,
+                    arguments: request.arguments,
+                    error: error instanceof Error ? error.message : String(error),
+                    duration: Date.now() - startTime
+                });
+
+                throw error;
+            }
+
+            if (toolResponse.isError) {
+                context.emit("tool-failed", {
+                    name: request.name,
+                    arguments: request.arguments,
+                    error: JSON.stringify(toolResponse.structuredContent),
+                    duration: Date.now() - startTime
+                });
+            }
+            else {
+                context.emit("tool-finished", {
+                    name: request.name,
+                    arguments: request.arguments,
+                    result: toolResponse,
+                    duration: Date.now() - startTime,
+                    cached
+                });
+            }
 
             // Update action log
-            this._actionLogs.push({
+            context.logAction({
                 type: request.type,
                 name: request.name,
                 arguments: request.arguments,
                 timeExecuted: Date.now(),
                 response: toolResponse,
-                isError: toolResponse.isError
+                isError: toolResponse.isError,
+                ...(cached && { cached }),
+                ...(request.toolCallId !== undefined && { toolCallId: request.toolCallId })
             });
 
             if (toolResponse.isError) {
-                bridge.completionHandler({
-                    error: `Internal error encountered. Error Code: ${ErrorCode.InvalidToolResponse}`
-                });
-
-                return;
+                return {
+                    output: { error: `Internal error encountered. Error Code: ${ErrorCode.InvalidToolResponse}` },
+                    errorCode: ErrorCode.InvalidToolResponse
+                };
             }
         }
+        else if (request.type == RequestTypes.CompletionRequest) {
+            await this.executeCompletion(request, context, extra, startTime);
+        }
         else {
             // Resource read
             try {
-                const resourceResponse = await this.handleResourceRequest(request);
+                const { result: resourceResponse, cached } = await this.readResourceRequest(request, context, extra);
+
+                context.emit("resource-read", {
+                    uri: request.uri,
+                    duration: Date.now() - startTime,
+                    result: resourceResponse,
+                    cached
+                });
 
-                this._actionLogs.push({
+                context.logAction({
                     type: request.type,
                     name: request.uri,
                     timeExecuted: Date.now(),
                     response: resourceResponse,
-                    isError: false
+                    isError: false,
+                    ...(cached && { cached })
                 });
             } catch (error) {
-                bridge.completionHandler({
-                    error: `Internal error encountered. Error Code: ${ErrorCode.InvalidResourceResponse}`
+                context.emit("resource-read", {
+                    uri: request.uri,
+                    duration: Date.now() - startTime,
+                    error: error instanceof Error ? error.message : String(error)
                 });
+
+                if (context.isCancelled) throw context.cancellationError();
+
+                return {
+                    output: { error: `Internal error encountered. Error Code: ${ErrorCode.InvalidResourceResponse}` },
+                    errorCode: ErrorCode.InvalidResourceResponse
+                };
             }
         }
+    }
 
-        // Follow-up prompt
-        const contextAwarePromptStructure: ContextAwarePrompt = {
-            task: `
-            The tools/resources you've selected have been executed and their data is available in the 'actionsTaken' field. 
-
-            Using the available context, generate a structured JSON response to the given prompt. Follow the 
-            checklist and policies. If the data and context provided is enough to answer the 'promptToAnswer' field then answer it
-            in the expected format. If the given context isn't enough then you can perform another tool request using the available tools,
-            if necessary.
-            `,
-            actionsTaken: this.actionLogsToString(),
-            checklist: [
-                "Follow the system policies",
-                "Can the user's prompt be answered in accordance with the policies described? (if any)",
-                "Can the user's prompt be answered without exceeding the maximum allowed amount of sequential actions (e.g. tool requests)?",
-                "Is the available context enough to answer the prompt? If so then answer it.",
-                "If a valid response is not possible fail gracefully and generate a descriptive error message for the end user.",
-                "If more context is needed and the available tools are adequate, then select the tool you want to use, and provide the parameters you wish to plug in.",
-            ],
-            maxSequentialActions: this.maxActionChainLength,
-            systemPolicies: this.policyManager.systemPoliciesToString(),
-            userPolicies: this.policyManager.activePoliciesToString(),
-            tools: this.registeredToolsToString(),
-            resources: this.registeredResourcesToString(),
-            resourceTemplates: this.registeredResourceTemplatesToString(),
-            responseSchema: zodToJsonSchema(LLMContextAwareOutputSchema),
-            errorCodes: ErrorCode,
-            promptToAnswer: basePrompt
-        };
+    /**
+     * Completes a resource template variable for the LLM, failed completions are logged as errors
+     * so the LLM can correct its request instead of failing the run
+     */
+    private async executeCompletion(
+        request: CompleteRequest,
+        context: RunContext,
+        extra: RequestExtra,
+        startTime: number
+    ): Promise<void> {
+        const { template, variable, value } = request;
 
-        const res = await bridge.promptExecutor({
-            input: JSON.stringify(contextAwarePromptStructure)
-        });
+        let result: CompleteResult;
+        try {
+            result = await this.runCompletionRequest(request, context, extra);
+        } catch (error) {
+            if (context.isCancelled) throw context.cancellationError();
+            // Replays that ran out of recorded completions fail like tools / resources do
+            if (error instanceof MACError && error.code === ErrorCode.ReplayDivergence) throw error;
+
+            const message = error instanceof Error ? error.message : String(error);
+
+            context.emit("resource-completion", { template, variable, value, duration: Date.now() - startTime, error: message });
+            context.logAction({
+                type: request.type,
+                name: template,
+                arguments: { variable, value },
+                timeExecuted: Date.now(),
+                response: { error: message },
+                isError: true
+            });
 
-        // Follow-up prompt failed for some reason, return early
-        if (res.error) {
-            bridge.completionHandler(res);
             return;
         }
 
-        // Parse the LLM's response as a valid JSON
-        const message = LLMMessageSchema.safeParse(res),
-            parsedText = message.data?.content.text,
-            responseJSONString = parsedText ? extractValidJSON(parsedText) : undefined,
-            parsedResponse = responseJSONString ? JSON.parse(responseJSONString) : undefined,
-            contextAwareOutput = LLMContextAwareOutputSchema.safeParse(parsedResponse),
-            output = contextAwareOutput.data;
+        context.emit("resource-completion", { template, variable, value, duration: Date.now() - startTime, result });
+        context.logAction({
+            type: request.type,
+            name: template,
+            arguments: { variable, value },
+            timeExecuted: Date.now(),
+            response: result,
+            isError: false
+        });
+    }
 
-        if (contextAwareOutput.error) {
-            bridge.completionHandler({
-                error: contextAwareOutput.error.message
+    /**
+     * Merges the batched and single requests made by the LLM into one list
+     */
+    private collectRequests(
+        batch: ActionRequest[] | null | undefined,
+        ...requests: (ActionRequest | null | undefined)[]
+    ): ActionRequest[] {
+        return [
+            ...(batch ?? []),
+            ...requests
+        ].filter(Boolean) as ActionRequest[];
+    }
+
+    /**
+     * Sends the prompt to the run's current bridge and validates the LLM's response against the given schema.
+     * Invalid responses are fed back to the LLM along with the error, up to `maxRepairAttempts` times.
+     * If the bridge fails the prompt is rebuilt for the next fallback bridge (if any) and the step is retried.
+     */
+    private async promptForOutput<Schema extends ZodTypeAny>(
+        basePrompt: string,
+        prompt: BudgetedPrompt,
+        responseSchema: Schema,
+        step: PromptStep,
+        context: RunContext,
+        attachmentsFor: (bridge: LLMBridge) => Attachment[] = () => []
+    ): Promise<{ success: true, data: z.infer<Schema> } | { success: false, outcome: RunOutcome }> {
+        this.routeStep(basePrompt, step, context);
+
+        for (; ;) {
+            const bridge = context.bridge;
+
+            let result: { success: true, data: z.infer<Schema> } | { success: false, outcome: RunOutcome };
+            try {
+                result = await this.promptBridgeForOutput(bridge, prompt, attachmentsFor(bridge), responseSchema, step, context);
+            } catch (e) {
+                if (e instanceof MACError && e.code === ErrorCode.Cancelled) throw e;
+
+                result = {
+                    success: false,
+                    outcome: {
+                        output: { error: e instanceof Error ? e.message : String(e) },
+                        errorCode: e instanceof MACError ? e.code : ErrorCode.BridgeError
+                    }
+                };
+            }
+
+            if (result.success) return result;
+
+            const { output, errorCode } = result.outcome;
+
+            // Only provider failures are retried, e.g. policy violations are reported as is
+            if (errorCode === undefined || !FAILOVER_ERROR_CODES.has(errorCode)) return result;
+
+            const fallbackBridge = context.failover();
+            if (!fallbackBridge) return result;
+
+            context.emit("bridge-failover", {
+                from: bridge.name,
+                to: fallbackBridge.name,
+                step,
+                errorCode,
+                error: output.error ?? undefined
+            });
+
+            context.logAction({
+                type: RequestTypes.BridgeFailover,
+                name: bridge.name,
+                arguments: {
+                    fallbackBridge: fallbackBridge.name,
+                    step,
+                    errorCode
+                },
+                timeExecuted: Date.now(),
+                response: output,
+                isError: true
             });
-            return;
         }
+    }
 
-        // Possible responses from the LLM
-        const error = output?.error,
-            nextToolRequest = output?.toolInvocationRequest,
-            embeddedContentResponse = output?.embeddedContentResponse,
-            content = output?.content;
+    /**
+     * Renders the content of tool / resource results with the content renderers, e.g. so a PDF
+     * isn't fed back to the LLM as megabytes of base64. Images become attachments for bridges
+     * with the `imageInput` capability.
+     */
+    private renderActionLogs(
+        actionLogs: ActionLog[],
+        bridge: LLMBridge
+    ): { actionLogs: ActionLog[], attachments: Attachment[] } {
+        const options = { imageInput: Boolean(bridge.capabilities.imageInput) },
+            attachments: Attachment[] = [];
+
+        const render = (content: RenderableContent): string => {
+            const rendered = this.contentRenderers.render(content, options);
+            attachments.push(...rendered.attachments ?? []);
+            return rendered.text;
+        };
 
-        // Custom error message generated
-        if (error) {
-            bridge.completionHandler({ error });
+        const renderedLogs = actionLogs.map((actionLog) => {
+            if (actionLog.type === RequestTypes.ResourceRequest) {
+                const result = ReadResourceResultSchema.safeParse(actionLog.response);
+                if (!result.success) return actionLog;
+
+                return {
+                    ...actionLog,
+                    response: {
+                        content: result.data.content.map((content) => ({
+                            uri: content.uri,
+                            ...(content.mimeType !== undefined && { mimeType: content.mimeType }),
+                            text: render(content)
+                        }))
+                    }
+                };
+            }
+
+            if (actionLog.type === RequestTypes.ToolRequest && actionLog.response?.structuredContent) {
+                const text = render({
+                    mimeType: "application/json",
+                    text: JSON.stringify(actionLog.response.structuredContent)
+                });
+
+                // Rendered JSON (e.g. projected by a custom renderer) stays structured, instead of
+                // being serialized again as an indented string within the action log
+                let structuredContent: unknown = text;
+                try {
+                    structuredContent = JSON.parse(text);
+                } catch { }
+
+                return {
+                    ...actionLog,
+                    response: { ...actionLog.response, structuredContent }
+                };
+            }
+
+            return actionLog;
+        });
+
+        return { actionLogs: renderedLogs, attachments };
+    }
+
+    /**
+     * Lets the router (if any) pick the bridge for the step
+     */
+    private routeStep(basePrompt: string, step: PromptStep, context: RunContext): void {
+        if (!this.router) return;
+
+        const name = this.router.route({
+            step,
+            prompt: basePrompt,
+            hints: context.routingHints,
+            bridges: Object.values(this._registeredBridges),
+            currentBridge: context.bridge
+        });
+
+        if (name === undefined || name === context.bridge.name) return;
+
+        const bridge = this._registeredBridges[name];
+
+        if (!bridge) {
+            throw new MACError(
+                ErrorCode.BridgeMissing,
+                `Bridge router selected: ${name}, which is not a registered bridge.`
+            );
+        }
+
+        context.emit("bridge-routed", { from: context.bridge.name, to: bridge.name, step });
+        context.useBridge(bridge);
+    }
+
+    /**
+     * Sends the prompt to a single bridge, repairing invalid responses
+     */
+    private async promptBridgeForOutput<Schema extends ZodTypeAny>(
+        bridge: LLMBridge,
+        prompt: BudgetedPrompt,
+        attachments: Attachment[],
+        responseSchema: Schema,
+        step: PromptStep,
+        context: RunContext
+    ): Promise<{ success: true, data: z.infer<Schema> } | { success: false, outcome: RunOutcome }> {
+        const renderer = this.promptRendererFor(bridge),
+            budgetedInputs = prompt.inputs(bridge),
+            originalPrompt = this.fitToBudget(bridge, budgetedInputs, (inputs) => prompt.build(bridge, inputs), step, context),
+            input: MacInput = {
+                input: renderer.render(originalPrompt),
+                messages: promptToMessages(originalPrompt, renderer),
+                ...(bridge.capabilities.nativeToolCalling && { tools: this.toolDefinitions() }),
+                ...((context.attachments.length > 0 || attachments.length > 0) && {
+                    attachments: [...context.attachments, ...attachments]
+                })
+            };
+
+        let res = await this.invokeBridge(bridge, input, step, context);
+
+        for (let attempt = 1; ; attempt++) {
+            if (res.error) {
+                return {
+                    success: false,
+                    outcome: { output: res, errorCode: ErrorCode.BridgeError }
+                };
+            }
+
+            const parseResult = this.parseLLMOutput(res, responseSchema);
+            if (parseResult.success) return parseResult;
+
+            // Out of repair attempts, fallback
+            if (attempt > this.maxRepairAttempts) {
+                return {
+                    success: false,
+                    outcome: {
+                        output: { error: parseResult.error },
+                        errorCode: ErrorCode.InvalidResponse
+                    }
+                };
+            }
+
+            // The original prompt is shrunk again to leave room for the invalid response within the budget
+            let repairedPrompt = originalPrompt;
+            const repairPromptStructure = this.fitToBudget(bridge, budgetedInputs, (inputs) => {
+                repairedPrompt = prompt.build(bridge, inputs);
+
+                return this.promptBuilderFor(bridge).buildRepairPrompt({
+                    error: parseResult.error,
+                    invalidResponse: parseResult.text,
+                    responseSchema: zodToJsonSchema(responseSchema),
+                    originalPrompt: renderer.render(repairedPrompt)
+                });
+            }, "repair", context);
+
+            context.emit("repair-attempt", {
+                bridge: bridge.name,
+                attempt,
+                error: parseResult.error
+            });
+
+            res = await this.invokeBridge(
+                bridge,
+                {
+                    ...input,
+                    input: renderer.render(repairPromptStructure),
+                    messages: repairToMessages(
+                        { ...input, messages: promptToMessages(repairedPrompt, renderer) },
+                        repairPromptStructure,
+                        renderer
+                    )
+                },
+                "repair",
+                context
+            );
+
+            context.logAction({
+                type: RequestTypes.RepairRequest,
+                name: bridge.name,
+                arguments: {
+                    attempt,
+                    error: parseResult.error,
+                    invalidResponse: parseResult.text
+                },
+                timeExecuted: Date.now(),
+                response: res,
+                isError: Boolean(res.error)
+            });
         }
-        // Another tool has been requested
-        else if (nextToolRequest) {
-            return this.contextAwarePrompt(bridge, basePrompt, nextToolRequest);
+    }
+
+    /**
+     * Executes the prompt with the given bridge
+     */
+    private async invokeBridge(
+        bridge: LLMBridge,
+        input: MacInput,
+        step: PromptStep,
+        context: RunContext
+    ): Promise<MacOutput> {
+        context.throwIfCancelled();
+        context.emit("prompt-sent", { bridge: bridge.name, step, input });
+
+        const retryPolicy = bridge.retryPolicy,
+            maxRetries = retryPolicy ? retryPolicy.maxRetries ?? 2 : 0;
+
+        for (let attempt = 1; ; attempt++) {
+            let response: MacOutput | undefined,
+                error: unknown;
+
+            try {
+                response = await this.callBridge(bridge, input, step, context);
+                error = response.error ?? undefined;
+            } catch (e) {
+                if (context.isCancelled) throw e;
+                error = e;
+            }
+
+            const isRetryable = retryPolicy?.isRetryable ?? isRetryableBridgeError,
+                retry = error !== undefined
+                    && attempt <= maxRetries
+                    && isRetryable(error, attempt);
+
+            if (!retry) {
+                if (!response) throw error;
+
+                context.emit("llm-response", { bridge: bridge.name, step, response });
+                return response;
+            }
+
+            const retryDelayDuration = retryDelay(retryPolicy ?? {}, attempt);
+
+            context.emit("bridge-retry", {
+                bridge: bridge.name,
+                step,
+                attempt,
+                delay: retryDelayDuration,
+                error: error instanceof Error ? error.message : String(error)
+            });
+
+            await delay(retryDelayDuration, context.signal);
+            context.throwIfCancelled();
         }
-        // Sufficient context, final output 
-        else if (content || embeddedContentResponse) {
-            bridge.completionHandler(output);
+    }
+
+    /**
+     * Sends a single request to the bridge, queued by the bridge's rate limiter (if any)
+     */
+    private async callBridge(
+        bridge: LLMBridge,
+        input: MacInput,
+        step: PromptStep,
+        context: RunContext
+    ): Promise<MacOutput> {
+        if (context.player) {
+            return this.replayed(context, context.player, (player) => player.replayBridge(bridge.name, step, input));
         }
-        // Parsing error occurred
-        else {
-            bridge.completionHandler({
-                error: `Internal error encountered. Error Code: ${ErrorCode.InvalidResponse}`
+
+        const request = () => {
+            let timeoutHandler: NodeJS.Timeout | undefined;
+
+            const timeoutPromise: Promise<MacOutput> = new Promise((_, reject) => {
+                if (bridge.timeout === undefined) return;
+
+                timeoutHandler = setTimeout(() => {
+                    reject(new MACError(
+                        ErrorCode.Timeout,
+                        `Bridge: ${bridge.name} did not respond within the allotted time limit: ${bridge.timeout} [ms]`
+                    ));
+                }, bridge.timeout);
+            });
+
+            return Promise.race([
+                timeoutPromise,
+                bridge.promptExecutor(input, context.extra)
+            ]).finally(() => {
+                clearTimeout(timeoutHandler);
             });
+        };
+
+        try {
+            const output = await raceWithSignal(
+                bridge.rateLimiter ? bridge.rateLimiter.schedule(request, context.signal) : request(),
+                context.signal,
+                () => context.cancellationError()
+            );
+
+            context.recorder?.record({ kind: "bridge", bridge: bridge.name, step, input, output });
+            return output;
+        } catch (error) {
+            if (!context.isCancelled) {
+                context.recorder?.record({ kind: "bridge", bridge: bridge.name, step, input, error: serializeError(error) });
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Executes the tool request, or replays its recorded response
+     */
+    private async runToolRequest(
+        request: ToolRequest,
+        context: RunContext,
+        extra: RequestExtra
+    ): Promise<{ result: ToolResult, cached: boolean }> {
+        if (context.player) {
+            return { result: this.replayed(context, context.player, (player) => player.replayTool(request)), cached: false };
+        }
+
+        const interaction = { kind: "tool" as const, name: request.name, arguments: request.arguments };
+
+        try {
+            const { result, cached } = await this.executeToolRequest(request, extra);
+
+            context.recorder?.record({ ...interaction, result });
+            return { result, cached };
+        } catch (error) {
+            if (!extra.signal.aborted) context.recorder?.record({ ...interaction, error: serializeError(error) });
+            throw error;
+        }
+    }
+
+    /**
+     * Reads the resource, or replays its recorded response
+     */
+    private async readResourceRequest(
+        request: ReadResourceRequest,
+        context: RunContext,
+        extra: RequestExtra
+    ): Promise<{ result: ReadResourceResult, cached: boolean }> {
+        if (context.player) {
+            return { result: this.replayed(context, context.player, (player) => player.replayResource(request)), cached: false };
+        }
+
+        const interaction = { kind: "resource" as const, uri: request.uri };
+
+        try {
+            const { result, cached } = await this.executeResourceRequest(request, extra);
+
+            context.recorder?.record({ ...interaction, result });
+            return { result, cached };
+        } catch (error) {
+            if (!extra.signal.aborted) context.recorder?.record({ ...interaction, error: serializeError(error) });
+            throw error;
+        }
+    }
+
+    /**
+     * Completes the resource template variable, or replays its recorded completion
+     */
+    private async runCompletionRequest(
+        request: CompleteRequest,
+        context: RunContext,
+        extra: RequestExtra
+    ): Promise<CompleteResult> {
+        if (context.player) {
+            return this.replayed(context, context.player, (player) => player.replayCompletion(request));
+        }
+
+        const { template, variable, value } = request,
+            interaction = { kind: "completion" as const, template, variable, value };
+
+        try {
+            const result = await raceWithSignal(
+                this.completeResourceVariable(template, variable, value),
+                extra.signal,
+                () => new MACError(ErrorCode.Cancelled, `Completion of ${template}: ${variable} was cancelled.`)
+            );
+
+            context.recorder?.record({ ...interaction, result });
+            return result;
+        } catch (error) {
+            if (!extra.signal.aborted) context.recorder?.record({ ...interaction, error: serializeError(error) });
+            throw error;
+        }
+    }
+
+    /**
+     * Runs the replay step, emitting an event for every divergence it flags
+     */
+    private replayed<T>(
+        context: RunContext,
+        player: CassettePlayer,
+        replay: (player: CassettePlayer) => T
+    ): T {
+        const flagged = player.divergences.length;
+
+        try {
+            return replay(player);
+        } finally {
+            player.divergences
+                .slice(flagged)
+                .forEach((divergence) => context.emit("replay-divergence", divergence));
         }
     }
 
+    /**
+     * Parses the LLM's response as a valid JSON and validates it against the given schema
+     */
+    private parseLLMOutput<Schema extends ZodTypeAny>(
+        res: MacOutput,
+        responseSchema: Schema
+    ): { success: true, data: z.infer<Schema> } | { success: false, error: string, text: string } {
+        const toolCalls = z.array(ToolCallSchema).safeParse(res.toolCalls).data ?? [];
+
+        // Native tool calls are handled like a batch of tool requests in the JSON protocol
+        if (toolCalls.length > 0) {
+            return this.parseToolCalls(toolCalls, responseSchema);
+        }
+
+        const parsedText = contentText(res.content);
+
+        let parsedResponse: unknown;
+        try {
+            parsedResponse = JSON.parse(extractValidJSON(parsedText));
+        } catch (error) {
+            return {
+                success: false,
+                error: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+                text: parsedText
+            };
+        }
+
+        const output = responseSchema.safeParse(parsedResponse);
+
+        if (!output.success) {
+            return { success: false, error: output.error.message, text: parsedText };
+        }
+
+        // Images / audio / files generated by the model are appended to the answer's content
+        const media = mediaParts(res.content);
+
+        if (media.length > 0 && output.data?.content) {
+            return {
+                success: true,
+                data: { ...output.data, content: [...contentParts(output.data.content), ...media] }
+            };
+        }
+
+        return { success: true, data: output.data };
+    }
+
+    private parseToolCalls<Schema extends ZodTypeAny>(
+        toolCalls: ToolCall[],
+        responseSchema: Schema
+    ): { success: true, data: z.infer<Schema> } | { success: false, error: string, text: string } {
+        const requests: ToolRequest[] = toolCalls.map((toolCall) => ({
+            type: RequestTypes.ToolRequest,
+            name: toolCall.name,
+            arguments: toolCall.arguments,
+            ...(toolCall.id !== undefined && { toolCallId: toolCall.id })
+        }));
+
+        const output = responseSchema.safeParse({ requests });
+
+        if (!output.success) {
+            return { success: false, error: output.error.message, text: JSON.stringify({ requests }) };
+        }
+
+        return { success: true, data: output.data };
+    }
+
     // Resources
     /**
      * Registers a resource `name` at a fixed URI, which will use the given callback to respond to read requests.
@@ -384,7 +1286,7 @@ class Orchestrator {
             | ReadResourceTemplateCallback;
 
         if (typeof uriOrTemplate === "string") {
-            if (this._registeredResources[uriOrTemplate]) {
+            if (this.registry.resources[uriOrTemplate]) {
                 throw new Error(`Resource ${uriOrTemplate} is already registered`);
             }
 
@@ -396,23 +1298,30 @@ class Orchestrator {
                 disable: () => registeredResource.update({ enabled: false }),
                 enable: () => registeredResource.update({ enabled: true }),
                 remove: () => registeredResource.update({ uri: null }),
+                notifyUpdated: async () => {
+                    const uri = Object.keys(this.registry.resources)
+                        .find((uri) => this.registry.resources[uri] === registeredResource);
+
+                    if (uri) await this.notifyResourceUpdated(uri);
+                },
                 update: (updates) => {
                     if (typeof updates.uri !== "undefined" && updates.uri !== uriOrTemplate) {
-                        delete this._registeredResources[uriOrTemplate]
-                        if (updates.uri) this._registeredResources[updates.uri] = registeredResource
+                        delete this.registry.resources[uriOrTemplate]
+                        if (updates.uri) this.registry.resources[updates.uri] = registeredResource
                     }
                     if (typeof updates.name !== "undefined") registeredResource.name = updates.name
                     if (typeof updates.metadata !== "undefined") registeredResource.metadata = updates.metadata
                     if (typeof updates.callback !== "undefined") registeredResource.callback = updates.callback
                     if (typeof updates.enabled !== "undefined") registeredResource.enabled = updates.enabled
+                    if (typeof updates.cache !== "undefined") registeredResource.cache = updates.cache ? createResourceCache(updates.cache) : undefined
                 }
             };
 
-            this._registeredResources[uriOrTemplate] = registeredResource;
+            this.registry.resources[uriOrTemplate] = registeredResource;
             return registeredResource;
 
         } else {
-            if (this._registeredResourceTemplates[name]) {
+            if (this.registry.resourceTemplates[name]) {
                 throw new Error(`Resource template ${name} is already registered`);
             }
 
@@ -424,48 +1333,172 @@ class Orchestrator {
                 disable: () => registeredResourceTemplate.update({ enabled: false }),
                 enable: () => registeredResourceTemplate.update({ enabled: true }),
                 remove: () => registeredResourceTemplate.update({ name: null }),
+                notifyUpdated: async (uri) => {
+                    if (uri) return this.notifyResourceUpdated(uri);
+
+                    await registeredResourceTemplate.cache?.store.clear();
+
+                    await Promise.all(Object.keys(this.registry.resourceSubscriptions)
+                        .filter((uri) => registeredResourceTemplate.resourceTemplate.uriTemplate.match(uri))
+                        .map((uri) => this.notifyResourceUpdated(uri)));
+                },
                 update: (updates) => {
                     if (typeof updates.name !== "undefined" && updates.name !== name) {
-                        delete this._registeredResourceTemplates[name]
-                        if (updates.name) this._registeredResourceTemplates[updates.name] = registeredResourceTemplate
+                        delete this.registry.resourceTemplates[name]
+                        if (updates.name) this.registry.resourceTemplates[updates.name] = registeredResourceTemplate
                     }
                     if (typeof updates.template !== "undefined") registeredResourceTemplate.resourceTemplate = updates.template
                     if (typeof updates.metadata !== "undefined") registeredResourceTemplate.metadata = updates.metadata
                     if (typeof updates.callback !== "undefined") registeredResourceTemplate.callback = updates.callback
                     if (typeof updates.enabled !== "undefined") registeredResourceTemplate.enabled = updates.enabled
+                    if (typeof updates.cache !== "undefined") registeredResourceTemplate.cache = updates.cache ? createResourceCache(updates.cache) : undefined
                 }
             };
 
-            this._registeredResourceTemplates[name] = registeredResourceTemplate;
+            this.registry.resourceTemplates[name] = registeredResourceTemplate;
             return registeredResourceTemplate;
         }
     }
 
     removeResource(uriOrTemplate: string) {
-        this._registeredResources[uriOrTemplate].remove();
-        this._registeredResourceTemplates[uriOrTemplate].remove();
+        this.registry.resources[uriOrTemplate].remove();
+        this.registry.resourceTemplates[uriOrTemplate].remove();
+    }
+
+    async handleResourceRequest(
+        request: ReadResourceRequest,
+        extra: RequestExtra = { signal: new AbortController().signal }
+    ): Promise<ReadResourceResult> {
+        return (await this.executeResourceRequest(request, extra)).result;
+    }
+
+    /**
+     * Candidate values of a resource template's variable, using the template's `complete` callback
+     * for the variable (no candidates if it has none)
+     */
+    async completeResourceVariable(template: string, variable: string, value: string = ""): Promise<CompleteResult> {
+        const resourceTemplate = this.registry.resourceTemplates[template]?.resourceTemplate;
+
+        if (!resourceTemplate) {
+            throw new MACError(
+                ErrorCode.InvalidParams,
+                `Resource template: ${template} does not exist.`
+            );
+        }
+
+        if (!resourceTemplate.uriTemplate.variableNames.includes(variable)) {
+            throw new MACError(
+                ErrorCode.InvalidParams,
+                `Resource template: ${template} has no variable: ${variable}`
+            );
+        }
+
+        const values = await resourceTemplate.completeCallback(variable)?.(value) ?? [];
+
+        return {
+            values: values.slice(0, MAX_COMPLETION_VALUES),
+            hasMore: values.length > MAX_COMPLETION_VALUES
+        };
+    }
+
+    /**
+     * Subscribes to updates of the resource at the given URI, which may match a resource template
+     *
+     * @returns Unsubscribes the listener
+     */
+    subscribeToResource(uri: string, listener: ResourceUpdatedListener): () => void {
+        const key = new URL(uri).toString(),
+            subscriptions = this.registry.resourceSubscriptions;
+
+        (subscriptions[key] ??= new Set()).add(listener);
+
+        return () => {
+            subscriptions[key]?.delete(listener);
+            if (subscriptions[key]?.size === 0) delete subscriptions[key];
+        };
+    }
+
+    /**
+     * Invalidates the cached read of the resource at the given URI and notifies its subscribers
+     */
+    async notifyResourceUpdated(uri: string): Promise<void> {
+        const key = new URL(uri).toString();
+
+        await this.resolveResource(new URL(key))?.cache?.store.delete(key);
+
+        // A failing listener shouldn't prevent the others from being notified
+        [...this.registry.resourceSubscriptions[key] ?? []].forEach((listener) => {
+            try {
+                listener(key);
+            } catch { }
+        });
     }
 
-    async handleResourceRequest(request: ReadResourceRequest): Promise<ReadResourceResult> {
-        const uri = new URL(request.uri);
+    /**
+     * Returns the resource's cached read if it has one, otherwise reads the resource and caches the
+     * result (if the resource is cached)
+     */
+    private async executeResourceRequest(
+        request: ReadResourceRequest,
+        extra: RequestExtra
+    ): Promise<{ result: ReadResourceResult, cached: boolean }> {
+        const uri = new URL(request.uri),
+            key = uri.toString();
 
-        // Check if resource exists
-        const resource = this._registeredResources[uri.toString()];
+        const resource = this.resolveResource(uri);
+
+        if (!resource) {
+            throw new MACError(
+                ErrorCode.InvalidParams,
+                `Resource ${uri} not found`,
+            );
+        }
 
         // Verify resource is enabled
+        if (!resource.enabled) {
+            throw new MACError(
+                ErrorCode.InvalidParams,
+                `Resource: ${uri} is disabled`,
+            );
+        }
+
+        if (resource.cache) {
+            const cachedResult = await resource.cache.store.get(key);
+            if (cachedResult) return { result: cachedResult, cached: true };
+        }
+
+        const result = await raceWithSignal(
+            Promise.resolve(resource.read(uri, extra)),
+            extra.signal,
+            () => new MACError(ErrorCode.Cancelled, `Resource: ${uri} read was cancelled.`)
+        );
+
+        if (resource.cache) await resource.cache.store.set(key, result, resource.cache.ttl);
+
+        return { result, cached: false };
+    }
+
+    /**
+     * Finds the resource registered at the URI, or the first resource template matching it
+     */
+    private resolveResource(uri: URL): {
+        enabled: boolean,
+        cache?: RegisteredResource["cache"],
+        read: (uri: URL, extra: RequestExtra) => ReadResourceResult | Promise<ReadResourceResult>
+    } | undefined {
+        const resource = this.registry.resources[uri.toString()];
+
         if (resource) {
-            if (!resource.enabled) {
-                throw new MACError(
-                    ErrorCode.InvalidParams,
-                    `Resource: ${uri} is disabled`,
-                );
-            }
-            return await resource.callback(uri);
+            return {
+                enabled: resource.enabled,
+                cache: resource.cache,
+                read: (uri, extra) => resource.callback(uri, extra)
+            };
         }
 
         // Check templates
         for (const template of Object.values(
-            this._registeredResourceTemplates,
+            this.registry.resourceTemplates,
         )) {
             const variables = template
                 .resourceTemplate
@@ -473,14 +1506,16 @@ class Orchestrator {
                 .match(uri.toString());
 
             if (variables) {
-                return await template.callback(uri, variables);
+                // Template reads aren't gated on the template being enabled
+                return {
+                    enabled: true,
+                    cache: template.cache,
+                    read: (uri, extra) => template.callback(uri, variables, extra)
+                };
             }
         }
 
-        throw new MACError(
-            ErrorCode.InvalidParams,
-            `Resource ${uri} not found`,
-        );
+        return undefined;
     }
 
     // Tools
@@ -526,7 +1561,7 @@ class Orchestrator {
     ): RegisteredTool;
 
     registerTool(name: string, ...rest: unknown[]): RegisteredTool {
-        if (this._registeredTools[name]) {
+        if (this.registry.tools[name]) {
             throw new Error(`Tool: ${name} is already registered`);
         }
 
@@ -577,8 +1612,8 @@ class Orchestrator {
             remove: () => registeredTool.update({ name: null }),
             update: (updates) => {
                 if (typeof updates.name !== "undefined" && updates.name !== name) {
-                    delete this._registeredTools[name];
-                    if (updates.name) this._registeredTools[updates.name] = registeredTool;
+                    delete this.registry.tools[name];
+                    if (updates.name) this.registry.tools[updates.name] = registeredTool;
                 }
 
                 if (typeof updates.description !== "undefined") registeredTool.description = updates.description;
@@ -586,20 +1621,22 @@ class Orchestrator {
                 if (typeof updates.callback !== "undefined") registeredTool.callback = updates.callback;
                 if (typeof updates.enabled !== "undefined") registeredTool.enabled = updates.enabled;
                 if (typeof updates.timeout !== "undefined") registeredTool.timeout = updates.timeout;
+                if (typeof updates.cache !== "undefined") registeredTool.cache = updates.cache ? createToolCache(updates.cache) : undefined;
             },
         };
 
-        this._registeredTools[name] = registeredTool;
+        this.registry.tools[name] = registeredTool;
         return registeredTool;
     }
 
     removeTool(name: string) {
-        this._registeredTools[name].remove();
+        this.registry.tools[name].remove();
     }
 
     private async runTool(
         tool: RegisteredTool,
-        request: ToolRequest
+        request: ToolRequest,
+        extra: RequestExtra
     ): Promise<ToolResult> {
         if (tool.inputSchema) {
             const parseResult = await tool.inputSchema.safeParseAsync(
@@ -617,7 +1654,7 @@ class Orchestrator {
                 callback = tool.callback as ToolCallback<ZodRawShape>;
 
             try {
-                return await Promise.resolve(callback(args));
+                return await Promise.resolve(callback(args, extra));
             } catch (error) {
                 return {
                     structuredContent: {
@@ -639,10 +1676,25 @@ class Orchestrator {
     }
 
     /**
-     * Handles the tool request within the timeout limit (default 10 seconds ~ 10_000 [ms])
+     * Handles the tool request within the timeout limit (default 10 seconds ~ 10_000 [ms]), the request
+     * is abandoned as soon as the given signal is aborted
+     */
+    async handleToolRequest(
+        request: ToolRequest,
+        extra: RequestExtra = { signal: new AbortController().signal }
+    ): Promise<ToolResult> {
+        return (await this.executeToolRequest(request, extra)).result;
+    }
+
+    /**
+     * Returns the tool's cached result if it has one for the request's arguments, otherwise runs the
+     * tool and caches successful results (if the tool is cached)
      */
-    async handleToolRequest(request: ToolRequest): Promise<ToolResult> {
-        const tool = this._registeredTools[request.name];
+    private async executeToolRequest(
+        request: ToolRequest,
+        extra: RequestExtra
+    ): Promise<{ result: ToolResult, cached: boolean }> {
+        const tool = this.registry.tools[request.name];
 
         if (!tool) {
             throw new MACError(
@@ -659,30 +1711,61 @@ class Orchestrator {
             );
         }
 
+        const cacheKey = await this.toolCacheKeyFor(tool, request);
+
+        if (tool.cache && cacheKey) {
+            const cachedResult = await tool.cache.store.get(cacheKey);
+            if (cachedResult) return { result: cachedResult, cached: true };
+        }
+
+        const result = await this.runToolWithinTimeout(tool, request, extra);
+
+        if (tool.cache && cacheKey && !result.isError) {
+            await tool.cache.store.set(cacheKey, result, tool.cache.ttl);
+        }
+
+        return { result, cached: false };
+    }
+
+    /**
+     * Cache key of the request's validated arguments, undefined if the tool isn't cached or the arguments are invalid
+     */
+    private async toolCacheKeyFor(tool: RegisteredTool, request: ToolRequest): Promise<string | undefined> {
+        if (!tool.cache || !tool.inputSchema) return undefined;
+
+        const parseResult = await tool.inputSchema.safeParseAsync(request.arguments);
+        return parseResult.success ? toolCacheKey(request.name, parseResult.data) : undefined;
+    }
+
+    private runToolWithinTimeout(
+        tool: RegisteredTool,
+        request: ToolRequest,
+        extra: RequestExtra
+    ): Promise<ToolResult> {
         // 10 seconds is the default timeout duration for all tool requests if one is not specified
         const timeoutDuration = tool.timeout ?? 10_000;
         let timeoutHandler: NodeJS.Timeout;
 
-        const toolResult = await this.runTool(tool, request);
+        const toolResult = this.runTool(tool, request, extra);
         const timeoutPromise: Promise<ToolResult> = new Promise((_, reject) => {
             timeoutHandler = setTimeout(() => {
-                reject({
-                    content: [
-                        {
-                            type: "text",
-                            text: `Tool: ${request.name} did not finish within the allotted time limit: ${timeoutDuration} [ms]`
-                        }
-                    ],
-                    isError: true
-                });
+                reject(new MACError(
+                    ErrorCode.Timeout,
+                    `Tool: ${request.name} did not finish within the allotted time limit: ${timeoutDuration} [ms]`
+                ));
             }, timeoutDuration);
         });
 
-        return Promise.race([
-            timeoutPromise,
-            toolResult
-        ]).then(async (res) => {
+        return raceWithSignal(
+            Promise.race([
+                timeoutPromise,
+                toolResult
+            ]),
+            extra.signal,
+            () => new MACError(ErrorCode.Cancelled, `Tool: ${request.name} was cancelled.`)
+        ).finally(() => {
             clearTimeout(timeoutHandler);
+        }).then(async (res) => {
 
             // Force check the response for structure, if no structure exists then throw an error.
             if (tool.responseSchema) {
@@ -711,15 +1794,17 @@ class Orchestrator {
     }
 
     // Utils
-    private registeredResourcesToString(): string[] {
+    private registeredResourcesToString(includeDisabled: boolean = true): string[] {
         const resourceDescriptions: string[] = [];
 
-        Object.entries(this._registeredResources).forEach((entry) => {
+        Object.entries(this.registry.resources).forEach((entry) => {
             const name: string = entry[0],
                 resource: RegisteredResource = entry[1],
                 metadata: ResourceMetadata | undefined = resource.metadata,
                 isEnabled: boolean = resource.enabled;
 
+            if (!isEnabled && !includeDisabled) return;
+
             const resourceJSONDescription = JSON.stringify({
                 name,
                 metadata: JSON.stringify(metadata),
@@ -732,17 +1817,27 @@ class Orchestrator {
         return resourceDescriptions;
     }
 
-    private registeredResourceTemplatesToString(): string[] {
+    private registeredResourceTemplatesToString(includeDisabled: boolean = true): string[] {
         const resourceTemplateDescriptions: string[] = [];
 
-        Object.entries(this._registeredResourceTemplates).forEach((entry) => {
+        Object.entries(this.registry.resourceTemplates).forEach((entry) => {
             const name: string = entry[0],
                 resourceTemplate: RegisteredResourceTemplate = entry[1],
                 metadata: ResourceMetadata | undefined = resourceTemplate.metadata,
                 isEnabled: boolean = resourceTemplate.enabled;
 
+            if (!isEnabled && !includeDisabled) return;
+
+            const uriTemplate = resourceTemplate.resourceTemplate.uriTemplate;
+
             const resourceTemplateJSONDescription = JSON.stringify({
                 name,
+                uriTemplate: uriTemplate.toString(),
+                variables: uriTemplate.variableNames.map((variable) => ({
+                    name: variable,
+                    description: resourceTemplate.resourceTemplate.variableDescription(variable),
+                    completable: Boolean(resourceTemplate.resourceTemplate.completeCallback(variable))
+                })),
                 metadata: JSON.stringify(metadata),
                 isEnabled
             });
@@ -753,14 +1848,100 @@ class Orchestrator {
         return resourceTemplateDescriptions;
     }
 
-    private registeredToolsToString(): string[] {
+    // Catalog
+    /**
+     * Descriptors of the enabled tools, a page at a time
+     */
+    listTools(options: ListOptions = {}): ListToolsResult {
+        const tools = Object.entries(this.registry.tools)
+            .filter(([, tool]) => tool.enabled)
+            .map(([name, tool]) => ({
+                name,
+                description: tool.description,
+                inputSchema: zodToJsonSchema(tool.inputSchema ?? z.object({})),
+                responseSchema: zodToJsonSchema(tool.responseSchema ?? z.object({})),
+                timeout: tool.timeout ?? 10_000
+            }));
+
+        const { page, nextCursor } = paginate(tools, options);
+
+        return ListToolsResultSchema.parse({ tools: page, nextCursor });
+    }
+
+    /**
+     * Descriptors of the enabled resources followed by the resources listed by enabled resource
+     * templates (which inherit the template's metadata), a page at a time. Templates are only
+     * asked for the resources of the requested page.
+     */
+    async listResources(
+        options: ListOptions = {},
+        extra: RequestExtra = { signal: new AbortController().signal }
+    ): Promise<ListResourcesResult> {
+        const resources: Resource[] = Object.entries(this.registry.resources)
+            .filter(([, resource]) => resource.enabled)
+            .map(([uri, resource]) => ({ ...resource.metadata, uri, name: resource.name }));
+
+        const sources: PagedSource<Resource>[] = [async () => ({ items: resources })];
+
+        for (const template of Object.values(this.registry.resourceTemplates)) {
+            const listCallback = template.resourceTemplate.listCallback;
+            if (!template.enabled || !listCallback) continue;
+
+            sources.push(async (listOptions) => {
+                const listed = await listCallback(extra, listOptions);
+
+                return {
+                    items: listed.resources.map((resource) => ({ ...template.metadata, ...resource })),
+                    nextCursor: listed.nextCursor
+                };
+            });
+        }
+
+        const { page, nextCursor } = await paginateSources(sources, options);
+
+        return ListResourcesResultSchema.parse({ resources: page, nextCursor });
+    }
+
+    /**
+     * Descriptors of the enabled resource templates, a page at a time
+     */
+    listResourceTemplates(options: ListOptions = {}): ListResourceTemplatesResult {
+        const resourceTemplates = Object.entries(this.registry.resourceTemplates)
+            .filter(([, template]) => template.enabled)
+            .map(([name, template]) => ({
+                ...template.metadata,
+                name,
+                uriTemplate: template.resourceTemplate.uriTemplate.toString()
+            }));
+
+        const { page, nextCursor } = paginate(resourceTemplates, options);
+
+        return ListResourceTemplatesResultSchema.parse({ resourceTemplates: page, nextCursor });
+    }
+
+    /**
+     * Definitions of the enabled tools for bridges that support native tool calling
+     */
+    private toolDefinitions(): ToolDefinition[] {
+        return Object.entries(this.registry.tools)
+            .filter(([, tool]) => tool.enabled)
+            .map(([name, tool]) => ({
+                name,
+                description: tool.description,
+                parameters: zodToJsonSchema(tool.inputSchema ?? z.object({}))
+            }));
+    }
+
+    private registeredToolsToString(includeDisabled: boolean = true): string[] {
         const toolDescriptions: string[] = [];
 
-        Object.entries(this._registeredTools).forEach((entry) => {
+        Object.entries(this.registry.tools).forEach((entry) => {
             const name: string = entry[0],
                 tool: RegisteredTool = entry[1],
                 description: string | undefined = tool.description;
 
+            if (!tool.enabled && !includeDisabled) return;
+
             const toolJSONDescription = JSON.stringify({
                 name,
                 description,
@@ -773,23 +1954,6 @@ class Orchestrator {
 
         return toolDescriptions;
     }
-
-    private actionLogsToString(): string[] {
-        const logs: string[] = [];
-
-        this._actionLogs.forEach((actionLog) => {
-            logs.push(JSON.stringify(actionLog));
-        });
-
-        return logs;
-    }
-
-    /**
-     * Used to clear action logs when new prompts are requested 
-     */
-    private clearActionLogs(): void {
-        this._actionLogs = [];
-    }
 }
 
 export default Orchestrator;
\ No newline at end of file
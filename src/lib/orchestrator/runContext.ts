@@ -0,0 +1,233 @@
+import { randomUUID } from "crypto";
+import { ZodTypeAny } from "zod";
+import {
+    ActionLog,
+    Attachment,
+    ErrorCode,
+    MACError,
+    MacOutput,
+    RequestExtra,
+    RequestTypes,
+    RoutingHints,
+    RunResult
+} from "../shared/types";
+import { RunEvent, RunEventMap, RunEventType } from "../events/runEvents";
+import Session from "../session/session";
+import LLMBridge from "../bridge/llmbridge";
+import { CassettePlayer, CassetteRecorder } from "../cassette/cassette";
+
+/**
+ * Action types requested by the LLM, only these count towards the action chain and are
+ * fed back to the LLM as context
+ */
+const CHAIN_ACTIONS: Set<RequestTypes> = new Set([
+    RequestTypes.ToolRequest,
+    RequestTypes.ResourceRequest,
+    RequestTypes.CompletionRequest
+]);
+
+/**
+ * Per-call options for executing a prompt
+ */
+export type RunOptions = {
+    /**
+     * Receives the events of this run only, in addition to the orchestrator's event emitter
+     */
+    onEvent?: (event: RunEvent) => void;
+    /**
+     * Cancels the run when aborted, it's also passed along to bridges, tools and resources
+     */
+    signal?: AbortSignal;
+    /**
+     * Conversation the prompt belongs to, its previous turns are injected into the prompts as context
+     */
+    session?: Session;
+    /**
+     * Requirements passed to the bridge router when selecting a bridge for each step
+     */
+    routingHints?: RoutingHints;
+    /**
+     * Captures every bridge call, tool execution and resource read of the run into a cassette
+     */
+    recorder?: CassetteRecorder;
+    /**
+     * Replays a recorded run instead of calling bridges, tools and resources
+     */
+    player?: CassettePlayer;
+    /**
+     * Images, audio or files sent to the bridge with every prompt of the run
+     */
+    attachments?: Attachment[];
+    /**
+     * Schema of the final answer, the validated answer is returned as the result's `structuredContent`
+     */
+    outputSchema?: ZodTypeAny;
+};
+
+/**
+ * Terminal state of a prompt chain: the final output and an error code if the run failed
+ */
+export type RunOutcome = {
+    output: MacOutput;
+    errorCode?: ErrorCode;
+    /**
+     * Final answer validated against the run's output schema
+     */
+    structuredContent?: unknown;
+};
+
+export function isRunOutcome(value: unknown): value is RunOutcome {
+    return typeof value === "object"
+        && value !== null
+        && "output" in value;
+}
+
+/**
+ * Execution state of a single prompt run. Each call to `Orchestrator.executePrompt` creates
+ * its own context so concurrent runs never share action logs or chain counters.
+ */
+class RunContext {
+    readonly runId: string = randomUUID();
+    readonly startTime: number = Date.now();
+
+    /**
+     * Number of actions (tool / resource requests) executed in this run so far
+     */
+    chainLength: number = 0;
+
+    private _actionLogs: ActionLog[] = [];
+
+    /**
+     * Never aborted if the run wasn't given a signal
+     */
+    readonly signal: AbortSignal;
+
+    /**
+     * Previous turns of the run's session at the time the run started
+     */
+    readonly conversationHistory?: string[];
+
+    private onEvent?: (event: RunEvent) => void;
+
+    readonly routingHints: RoutingHints;
+    readonly recorder?: CassetteRecorder;
+    readonly player?: CassettePlayer;
+    readonly attachments: Attachment[];
+    readonly outputSchema?: ZodTypeAny;
+
+    /**
+     * The bridge answering the run's prompts followed by its fallback bridges
+     */
+    private _bridges: LLMBridge[];
+    private _fallbackBridges: LLMBridge[];
+    private _bridgeIndex: number = 0;
+
+    constructor(bridge: LLMBridge, fallbackBridges: LLMBridge[], options: RunOptions = {}) {
+        this._bridges = [bridge, ...fallbackBridges];
+        this._fallbackBridges = fallbackBridges;
+        this.routingHints = options.routingHints ?? {};
+        this.recorder = options.recorder;
+        this.player = options.player;
+        this.attachments = options.attachments ?? [];
+        this.outputSchema = options.outputSchema;
+        this.onEvent = options.onEvent;
+        this.signal = options.signal ?? new AbortController().signal;
+        this.conversationHistory = options.session?.historyToString();
+    }
+
+    /**
+     * Bridge currently answering the run's prompts
+     */
+    get bridge(): LLMBridge {
+        return this._bridges[this._bridgeIndex];
+    }
+
+    /**
+     * Sends the following prompts to the given bridge, its failover chain is reset to the fallback bridges
+     */
+    useBridge(bridge: LLMBridge): void {
+        this._bridges = [bridge, ...this._fallbackBridges.filter((fallback) => fallback !== bridge)];
+        this._bridgeIndex = 0;
+    }
+
+    /**
+     * Switches the run over to the next fallback bridge, returns undefined if there is none left
+     */
+    failover(): LLMBridge | undefined {
+        if (this._bridgeIndex >= this._bridges.length - 1) return undefined;
+
+        this._bridgeIndex++;
+        return this.bridge;
+    }
+
+    get extra(): RequestExtra {
+        return { signal: this.signal };
+    }
+
+    get isCancelled(): boolean {
+        return this.signal.aborted;
+    }
+
+    cancellationError(): MACError {
+        return new MACError(
+            ErrorCode.Cancelled,
+            `Run: ${this.runId} was cancelled.`
+        );
+    }
+
+    /**
+     * Stops the run from going any further once it has been cancelled
+     */
+    throwIfCancelled(): void {
+        if (this.isCancelled) throw this.cancellationError();
+    }
+
+    emit<T extends RunEventType>(type: T, data: RunEventMap[T]): void {
+        this.onEvent?.({
+            type,
+            runId: this.runId,
+            timestamp: Date.now(),
+            ...data
+        } as RunEvent);
+    }
+
+    /**
+     * Soft copy of the run's action logs in chronological order
+     */
+    get actionLogs(): ActionLog[] {
+        return [...this._actionLogs];
+    }
+
+    /**
+     * Records an action in the run's trace, tool and resource requests also advance the chain counter
+     */
+    logAction(actionLog: ActionLog): void {
+        this._actionLogs.push(actionLog);
+        if (CHAIN_ACTIONS.has(actionLog.type)) this.chainLength++;
+    }
+
+    /**
+     * Tool and resource requests to feed back to the LLM as context
+     */
+    get chainActionLogs(): ActionLog[] {
+        return this._actionLogs.filter((actionLog) => CHAIN_ACTIONS.has(actionLog.type));
+    }
+
+    toResult(bridge: string, outcome: RunOutcome): RunResult {
+        const endTime = Date.now();
+
+        return {
+            runId: this.runId,
+            bridge,
+            output: outcome.output,
+            actionLogs: this.actionLogs,
+            startTime: this.startTime,
+            endTime,
+            duration: endTime - this.startTime,
+            ...(outcome.errorCode !== undefined && { errorCode: outcome.errorCode }),
+            ...(outcome.structuredContent !== undefined && { structuredContent: outcome.structuredContent })
+        };
+    }
+}
+
+export default RunContext;
@@ -0,0 +1,206 @@
+import { ContentRendererI } from "../shared/interfaces";
+import { Attachment } from "../shared/types";
+
+/**
+ * A single content item of a resource / tool result, either text or a base64-encoded blob
+ */
+export type RenderableContent = {
+    uri?: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+};
+
+export type ContentRenderOptions = {
+    /**
+     * The bridge accepts images as attachments
+     */
+    imageInput: boolean;
+};
+
+/**
+ * Text fed back to the LLM in place of the content, and any binary data passed alongside the prompt
+ */
+export type RenderedContent = {
+    text: string;
+    attachments?: Attachment[];
+};
+
+/**
+ * Size in bytes of base64-encoded data
+ */
+function decodedSize(base64: string): number {
+    const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+    return Math.max(Math.floor(base64.length * 3 / 4) - padding, 0);
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function contentText(content: RenderableContent): string {
+    return content.text ?? Buffer.from(content.blob ?? "", "base64").toString("utf-8");
+}
+
+/**
+ * Renders text as is, optionally truncated to `maxLength` characters
+ */
+export class TextContentRenderer implements ContentRendererI {
+    constructor(private options: { maxLength?: number } = {}) { }
+
+    render(content: RenderableContent): RenderedContent {
+        const text = contentText(content),
+            { maxLength } = this.options;
+
+        if (maxLength === undefined || text.length <= maxLength) return { text };
+
+        return { text: `${text.slice(0, maxLength)}\n... (${text.length - maxLength} more characters)` };
+    }
+}
+
+/**
+ * Pretty prints JSON, optionally projected first (e.g. to pick the fields the LLM needs). Invalid
+ * JSON is rendered as text.
+ */
+export class JsonContentRenderer implements ContentRendererI {
+    constructor(private options: {
+        /**
+         * Number of spaces to indent with, default is 2
+         */
+        indent?: number,
+        project?: (value: unknown, content: RenderableContent) => unknown
+    } = {}) { }
+
+    render(content: RenderableContent): RenderedContent {
+        const text = contentText(content);
+
+        let value: unknown;
+        try {
+            value = JSON.parse(text);
+        } catch {
+            return { text };
+        }
+
+        const projected = this.options.project ? this.options.project(value, content) : value;
+
+        return { text: JSON.stringify(projected, null, this.options.indent ?? 2) ?? "null" };
+    }
+}
+
+/**
+ * Renders the header and the first rows of a CSV file, followed by the number of omitted rows
+ */
+export class CsvContentRenderer implements ContentRendererI {
+    constructor(private options: {
+        /**
+         * Number of rows after the header, default is 20
+         */
+        previewRows?: number
+    } = {}) { }
+
+    render(content: RenderableContent): RenderedContent {
+        const rows = contentText(content).split(/\r?\n/).filter((row) => row.trim() !== ""),
+            previewRows = this.options.previewRows ?? 20,
+            omittedRows = rows.length - 1 - previewRows;
+
+        const preview = rows.slice(0, previewRows + 1).join("\n");
+
+        return { text: omittedRows > 0 ? `${preview}\n... (${omittedRows} more rows)` : preview };
+    }
+}
+
+/**
+ * Summarizes binary content by its type and size
+ */
+export class BinaryContentRenderer implements ContentRendererI {
+    render(content: RenderableContent): RenderedContent {
+        const size = decodedSize(content.blob ?? ""),
+            source = content.uri ? ` at ${content.uri}` : "";
+
+        return { text: `[Binary content${source}: ${content.mimeType ?? "unknown type"}, ${formatSize(size)}]` };
+    }
+}
+
+/**
+ * Passes images to bridges that accept them as attachments, and summarizes them for other bridges.
+ * Images given as text (e.g. SVG) are rendered as text.
+ */
+export class ImageContentRenderer implements ContentRendererI {
+    private text = new TextContentRenderer();
+    private summary = new BinaryContentRenderer();
+
+    render(content: RenderableContent, options: ContentRenderOptions): RenderedContent {
+        if (content.blob === undefined && content.text !== undefined) return this.text.render(content);
+        if (!options.imageInput || !content.blob) return this.summary.render(content);
+
+        const source = content.uri ? ` from ${content.uri}` : "";
+
+        return {
+            text: `[Image${source} attached: ${content.mimeType}, ${formatSize(decodedSize(content.blob))}]`,
+            attachments: [{
+                type: "image",
+                mimeType: content.mimeType ?? "image/png",
+                data: content.blob,
+                ...(content.uri !== undefined && { source: content.uri })
+            }]
+        };
+    }
+}
+
+const textRenderer = new TextContentRenderer(),
+    binaryRenderer = new BinaryContentRenderer();
+
+/**
+ * Content renderers keyed by MIME type. Renderers are looked up by the exact MIME type, then by
+ * the `+json` structured syntax suffix, then by the wildcard of the type (e.g. `image/*`). Text
+ * with an unknown MIME type is rendered as is, and unknown binaries are summarized by size / type.
+ */
+export class ContentRendererRegistry {
+    private renderers: Map<string, ContentRendererI> = new Map();
+
+    /**
+     * Registry with the default renderers for JSON, CSV, text and images
+     */
+    static withDefaults(): ContentRendererRegistry {
+        return new ContentRendererRegistry()
+            .register("application/json", new JsonContentRenderer())
+            .register("text/csv", new CsvContentRenderer())
+            .register("text/*", new TextContentRenderer())
+            .register("image/*", new ImageContentRenderer());
+    }
+
+    /**
+     * Registers the renderer for a MIME type (e.g. `application/pdf`) or a wildcard (e.g. `video/*`),
+     * replacing the previous renderer
+     */
+    register(mimeType: string, renderer: ContentRendererI): this {
+        this.renderers.set(mimeType.toLowerCase(), renderer);
+        return this;
+    }
+
+    unregister(mimeType: string): void {
+        this.renderers.delete(mimeType.toLowerCase());
+    }
+
+    rendererFor(mimeType: string | undefined): ContentRendererI | undefined {
+        if (!mimeType) return undefined;
+
+        // Ignore parameters, e.g. "text/csv; charset=utf-8"
+        const essence = mimeType.split(";")[0].trim().toLowerCase(),
+            type = essence.split("/")[0];
+
+        return this.renderers.get(essence)
+            ?? (essence.endsWith("+json") ? this.renderers.get("application/json") : undefined)
+            ?? this.renderers.get(`${type}/*`);
+    }
+
+    render(content: RenderableContent, options: ContentRenderOptions): RenderedContent {
+        const renderer = this.rendererFor(content.mimeType)
+            ?? (content.text !== undefined ? textRenderer : binaryRenderer);
+
+        return renderer.render(content, options);
+    }
+}
@@ -0,0 +1,159 @@
+import { PromptBuilderI } from "../shared/interfaces";
+import {
+    ContextAwarePrompt,
+    DiscoveryPrompt,
+    ErrorCode,
+    RepairPrompt
+} from "../shared/types";
+
+/**
+ * Context gathered by the orchestrator that prompt builders turn into a prompt
+ */
+export type PromptBuildContext = {
+    promptToAnswer: string;
+    maxSequentialActions: number;
+    systemPolicies: string[];
+    userPolicies: string[];
+    resources: string[];
+    resourceTemplates: string[];
+    tools: string[];
+    /**
+     * JSON schema the LLM's response must follow
+     */
+    responseSchema: unknown;
+    errorCodes: typeof ErrorCode;
+    conversationHistory?: string[];
+};
+
+export type ContextAwarePromptBuildContext = PromptBuildContext & {
+    actionsTaken: string[];
+};
+
+export type RepairPromptBuildContext = {
+    error: string;
+    invalidResponse: string;
+    responseSchema: unknown;
+    originalPrompt: string;
+};
+
+const DISCOVERY_TASK = `
+            Generate a structured JSON response to the given prompt using the given checklist, policies, context, available tools and resources. 
+            The tool you select will invoked for you using the parameters you choose, and the resulting data will be fed 
+            back to you as context in a follow-up prompt.
+            `;
+
+const DISCOVERY_CHECKLIST = [
+    "Follow the system policies",
+    "Use the conversation history (if any) to resolve references to previous prompts and answers.",
+    "Can the user's prompt be answered in accordance with the policies described? (if any)",
+    "Are the available tools sufficient enough to answer the prompt?",
+    "Can the user's prompt be answered without exceeding the maximum allowed amount of sequential actions (e.g. tool requests)?",
+    "If a valid response is not possible fail gracefully and generate a descriptive error message for the end user.",
+    "If a valid response is possible then select the tool you wish to use, and provide the parameters you wish to plug in for them.",
+    "To build a URI from a resource template, fill in its variables. If you don't know a valid value for a variable, make a 'Completion-Request' for candidate values first.",
+    "If multiple independent tool / resource requests are needed then batch them in the 'requests' field, they will be executed concurrently."
+];
+
+const CONTEXT_AWARE_TASK = `
+            The tools/resources you've selected have been executed and their data is available in the 'actionsTaken' field. 
+
+            Using the available context, generate a structured JSON response to the given prompt. Follow the 
+            checklist and policies. If the data and context provided is enough to answer the 'promptToAnswer' field then answer it
+            in the expected format. If the given context isn't enough then you can perform another tool request using the available tools,
+            if necessary.
+            `;
+
+const CONTEXT_AWARE_CHECKLIST = [
+    "Follow the system policies",
+    "Use the conversation history (if any) to resolve references to previous prompts and answers.",
+    "Can the user's prompt be answered in accordance with the policies described? (if any)",
+    "Can the user's prompt be answered without exceeding the maximum allowed amount of sequential actions (e.g. tool requests)?",
+    "Is the available context enough to answer the prompt? If so then answer it.",
+    "If a valid response is not possible fail gracefully and generate a descriptive error message for the end user.",
+    "If more context is needed and the available tools are adequate, then select the tool you want to use, and provide the parameters you wish to plug in.",
+    "To build a URI from a resource template, fill in its variables. If you don't know a valid value for a variable, make a 'Completion-Request' for candidate values first.",
+    "If multiple independent tool / resource requests are needed then batch them in the 'requests' field, they will be executed concurrently."
+];
+
+const REPAIR_TASK = `
+                Your previous response could not be parsed or did not match the expected response schema. 
+                Using the error and your invalid response, generate a corrected structured JSON response to the original prompt 
+                that strictly follows the response schema. Respond with the JSON only.
+                `;
+
+/**
+ * Builds the prompts used by the orchestrator by default. Use the options to add an agent role or
+ * domain specific checklist items, or extend the class and override its methods to change the
+ * wording and ordering of the prompt's sections.
+ */
+export class DefaultPromptBuilder implements PromptBuilderI {
+    /**
+     * Agent role / persona included at the top of every prompt
+     */
+    protected role?: string;
+    protected additionalChecklistItems: string[];
+
+    constructor({
+        role,
+        additionalChecklistItems
+    }: {
+        role?: string,
+        additionalChecklistItems?: string[]
+    } = {}) {
+        this.role = role;
+        this.additionalChecklistItems = additionalChecklistItems ?? [];
+    }
+
+    buildDiscoveryPrompt(context: PromptBuildContext): DiscoveryPrompt {
+        return {
+            role: this.role,
+            task: DISCOVERY_TASK,
+            checklist: [
+                ...DISCOVERY_CHECKLIST,
+                ...this.additionalChecklistItems
+            ],
+            maxSequentialActions: context.maxSequentialActions,
+            systemPolicies: context.systemPolicies,
+            userPolicies: context.userPolicies,
+            resources: context.resources,
+            resourceTemplates: context.resourceTemplates,
+            tools: context.tools,
+            responseSchema: context.responseSchema,
+            errorCodes: context.errorCodes,
+            conversationHistory: context.conversationHistory,
+            promptToAnswer: context.promptToAnswer
+        };
+    }
+
+    buildContextAwarePrompt(context: ContextAwarePromptBuildContext): ContextAwarePrompt {
+        return {
+            role: this.role,
+            task: CONTEXT_AWARE_TASK,
+            actionsTaken: context.actionsTaken,
+            checklist: [
+                ...CONTEXT_AWARE_CHECKLIST,
+                ...this.additionalChecklistItems
+            ],
+            maxSequentialActions: context.maxSequentialActions,
+            systemPolicies: context.systemPolicies,
+            userPolicies: context.userPolicies,
+            tools: context.tools,
+            resources: context.resources,
+            resourceTemplates: context.resourceTemplates,
+            responseSchema: context.responseSchema,
+            errorCodes: context.errorCodes,
+            conversationHistory: context.conversationHistory,
+            promptToAnswer: context.promptToAnswer
+        };
+    }
+
+    buildRepairPrompt(context: RepairPromptBuildContext): RepairPrompt {
+        return {
+            task: REPAIR_TASK,
+            error: context.error,
+            invalidResponse: context.invalidResponse,
+            responseSchema: context.responseSchema,
+            originalPrompt: context.originalPrompt
+        };
+    }
+}
@@ -0,0 +1,141 @@
+import { z } from "zod";
+import { PromptRendererI } from "../shared/interfaces";
+import { LLMMessage, MacInput, RepairPrompt } from "../shared/types";
+import { contentText } from "../shared/contentParts";
+
+/**
+ * Shape of the turns produced by `Session.historyToString`
+ */
+const HistoryTurnSchema = z.object({
+    user: z.string(),
+    assistant: z.unknown()
+});
+
+const AnswerTextSchema = z.object({
+    text: z.string()
+});
+
+const ActionLogSchema = z.object({
+    name: z.string().optional(),
+    arguments: z.record(z.unknown()).optional(),
+    toolCallId: z.string().optional()
+});
+
+function textMessage(role: LLMMessage["role"], text: string, name?: string): LLMMessage {
+    return {
+        role,
+        ...(name !== undefined && { name }),
+        content: { type: "text", text }
+    };
+}
+
+function parseJSON(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+function historyToMessages(conversationHistory: string[]): LLMMessage[] {
+    return conversationHistory.flatMap((entry) => {
+        const turn = HistoryTurnSchema.safeParse(parseJSON(entry));
+
+        // Unknown history format, pass it along as is
+        if (!turn.success) return [textMessage("user", entry)];
+
+        const answer = turn.data.assistant,
+            answerText = typeof answer === "string"
+                ? answer
+                : AnswerTextSchema.safeParse(answer).data?.text ?? (contentText(answer) || JSON.stringify(answer ?? null));
+
+        return [
+            textMessage("user", turn.data.user),
+            textMessage("assistant", answerText)
+        ];
+    });
+}
+
+/**
+ * Actions taken as tool messages. Results of native tool calls reference their call, and are preceded
+ * by the assistant message making the calls (consecutive native calls share one assistant message).
+ */
+function actionsToMessages(actionsTaken: string[]): LLMMessage[] {
+    const messages: LLMMessage[] = [];
+    let toolCallsMessage: LLMMessage | undefined;
+
+    for (const actionLog of actionsTaken) {
+        const action = ActionLogSchema.safeParse(parseJSON(actionLog)).data,
+            toolCallId = action?.toolCallId;
+
+        if (toolCallId === undefined) {
+            toolCallsMessage = undefined;
+            messages.push(textMessage("tool", actionLog, action?.name));
+            continue;
+        }
+
+        if (!toolCallsMessage) {
+            toolCallsMessage = { ...textMessage("assistant", ""), toolCalls: [] };
+            messages.push(toolCallsMessage);
+        }
+
+        toolCallsMessage.toolCalls?.push({
+            id: toolCallId,
+            name: action?.name ?? "",
+            arguments: action?.arguments ?? {}
+        });
+
+        messages.push({ ...textMessage("tool", actionLog, action?.name), toolCallId });
+    }
+
+    return messages;
+}
+
+/**
+ * Splits a structured prompt into role-separated messages. The prompt's instructions, policies and
+ * catalogs are rendered into a system message, followed by the conversation history, the prompt
+ * to answer, and the actions taken so far as tool messages. Prompts without a `promptToAnswer`
+ * are sent as a single user message.
+ */
+export function promptToMessages(prompt: object, renderer: PromptRendererI): LLMMessage[] {
+    if (!("promptToAnswer" in prompt) || typeof prompt.promptToAnswer !== "string") {
+        return [textMessage("user", renderer.render(prompt))];
+    }
+
+    const {
+        promptToAnswer,
+        conversationHistory,
+        actionsTaken,
+        ...instructions
+    } = prompt as {
+        promptToAnswer: string,
+        conversationHistory?: string[],
+        actionsTaken?: string[]
+    };
+
+    return [
+        textMessage("system", renderer.render(instructions)),
+        ...historyToMessages(conversationHistory ?? []),
+        textMessage("user", promptToAnswer),
+        ...actionsToMessages(actionsTaken ?? [])
+    ];
+}
+
+/**
+ * Follow-up messages asking the LLM to repair its invalid response, the original messages are
+ * replayed with the invalid response as the assistant's answer
+ */
+export function repairToMessages(
+    originalInput: MacInput,
+    repairPrompt: RepairPrompt,
+    renderer: PromptRendererI
+): LLMMessage[] {
+    // Already present in the replayed messages
+    const { invalidResponse, originalPrompt, ...instructions } = repairPrompt;
+
+    return [
+        ...originalInput.messages,
+        textMessage("assistant", invalidResponse),
+        textMessage("user", renderer.render(instructions))
+    ];
+}
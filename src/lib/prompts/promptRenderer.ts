@@ -0,0 +1,95 @@
+import { PromptRendererI } from "../shared/interfaces";
+
+type PromptSection = [name: string, value: unknown];
+
+/**
+ * Sections of the prompt in their original order, empty sections are skipped
+ */
+function promptSections(prompt: object): PromptSection[] {
+    return Object.entries(prompt).filter(([, value]) => value !== undefined && value !== null);
+}
+
+/**
+ * Removes the indentation of multi-line strings (e.g. template literal tasks)
+ */
+function dedent(text: string): string {
+    return text
+        .trim()
+        .split("\n")
+        .map((line) => line.trim())
+        .join("\n");
+}
+
+/**
+ * Renders the prompt as a single JSON object, this is the default
+ */
+export class JsonPromptRenderer implements PromptRendererI {
+    render(prompt: object): string {
+        return JSON.stringify(prompt);
+    }
+}
+
+/**
+ * Renders each section of the prompt within its own XML tag, e.g. `<task>...</task>`. Lists are
+ * rendered as `<item>` tags, and nested data (e.g. the response schema) as JSON.
+ */
+export class XmlPromptRenderer implements PromptRendererI {
+    render(prompt: object): string {
+        return promptSections(prompt)
+            .map(([name, value]) => `<${name}>\n${this.renderValue(value)}\n</${name}>`)
+            .join("\n\n");
+    }
+
+    private renderValue(value: unknown): string {
+        if (Array.isArray(value)) {
+            if (value.length === 0) return "None";
+
+            return value
+                .map((item) => `<item>${this.escape(typeof item === "string" ? dedent(item) : JSON.stringify(item))}</item>`)
+                .join("\n");
+        }
+        if (typeof value === "object") return this.escape(JSON.stringify(value));
+
+        return this.escape(dedent(String(value)));
+    }
+
+    private escape(text: string): string {
+        return text
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;");
+    }
+}
+
+/**
+ * Renders each section of the prompt under its own Markdown heading. Lists are rendered as
+ * bullet points, and nested data (e.g. the response schema) as JSON code blocks.
+ */
+export class MarkdownPromptRenderer implements PromptRendererI {
+    render(prompt: object): string {
+        return promptSections(prompt)
+            .map(([name, value]) => `## ${this.heading(name)}\n${this.renderValue(value)}`)
+            .join("\n\n");
+    }
+
+    private renderValue(value: unknown): string {
+        if (Array.isArray(value)) {
+            if (value.length === 0) return "None";
+
+            return value
+                .map((item) => `- ${typeof item === "string" ? dedent(item) : JSON.stringify(item)}`)
+                .join("\n");
+        }
+        if (typeof value === "object") return "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+
+        return dedent(String(value));
+    }
+
+    /**
+     * e.g. systemPolicies -> System Policies
+     */
+    private heading(name: string): string {
+        const words = name.replace(/([a-z0-9])([A-Z])/g, "$1 $2");
+        return words.charAt(0).toUpperCase() + words.slice(1);
+    }
+}
@@ -0,0 +1,39 @@
+import {
+    RegisteredResource,
+    RegisteredResourceTemplate,
+    RegisteredTool,
+    ResourceUpdatedListener
+} from "../shared/types";
+
+/**
+ * Storage for the tools and resources exposed to an orchestrator.
+ *
+ * Every orchestrator owns its own registry by default, so separate Mac instances
+ * don't leak tools or resources into each other. A registry can be passed to
+ * multiple orchestrators when sharing the same catalog is intended.
+ */
+class Registry {
+    // Resources
+    resources: { [uri: string]: RegisteredResource } = {};
+    resourceTemplates: { [name: string]: RegisteredResourceTemplate } = {};
+
+    /**
+     * Listeners notified when the resource at the URI signals that its data changed
+     */
+    resourceSubscriptions: { [uri: string]: Set<ResourceUpdatedListener> } = {};
+
+    // Tools
+    tools: { [name: string]: RegisteredTool } = {};
+
+    /**
+     * Removes all registered tools, resources, resource templates and resource subscriptions
+     */
+    clear(): void {
+        this.resources = {};
+        this.resourceTemplates = {};
+        this.resourceSubscriptions = {};
+        this.tools = {};
+    }
+}
+
+export default Registry;
@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto";
+import {
+    ActionLog,
+    RequestTypes,
+    RunResult,
+    SerializedSession,
+    SerializedSessionSchema,
+    SessionTurn
+} from "../shared/types";
+import { withoutBinaryData } from "../shared/contentParts";
+
+/**
+ * Multi-turn conversation state. Pass a session to `Mac.handlePrompt` to give the LLM the
+ * previous prompts and answers as context, each run is then appended to the session.
+ */
+class Session {
+    readonly id: string;
+    readonly createdAt: number;
+    updatedAt: number;
+
+    /**
+     * Keep a short summary of the actions taken for each turn (no tool / resource responses)
+     */
+    summarizeActions: boolean;
+
+    /**
+     * Maximum number of previous turns injected into prompts, all turns are injected if undefined
+     */
+    maxHistoryTurns?: number;
+
+    private _turns: SessionTurn[] = [];
+
+    constructor({
+        id,
+        summarizeActions,
+        maxHistoryTurns,
+        createdAt
+    }: {
+        id?: string,
+        summarizeActions?: boolean,
+        maxHistoryTurns?: number,
+        createdAt?: number
+    } = {}) {
+        this.id = id ?? randomUUID();
+        this.summarizeActions = summarizeActions ?? false;
+        this.maxHistoryTurns = maxHistoryTurns;
+        this.createdAt = createdAt ?? Date.now();
+        this.updatedAt = this.createdAt;
+    }
+
+    /**
+     * Soft copy of the conversation's turns, oldest first
+     */
+    get turns(): SessionTurn[] {
+        return [...this._turns];
+    }
+
+    /**
+     * Appends the prompt and the final answer of its run to the conversation
+     */
+    addTurn(prompt: string, result: RunResult): void {
+        this._turns.push({
+            prompt,
+            answer: result.output,
+            ...(this.summarizeActions && { actionSummary: Session.summarizeActionLogs(result.actionLogs) }),
+            timestamp: result.endTime
+        });
+
+        this.updatedAt = Date.now();
+    }
+
+    clear(): void {
+        this._turns = [];
+        this.updatedAt = Date.now();
+    }
+
+    /**
+     * Stringified turns to inject into prompts as conversation history
+     */
+    historyToString(): string[] {
+        const turns = this.maxHistoryTurns !== undefined
+            ? this._turns.slice(-this.maxHistoryTurns)
+            : this._turns;
+
+        return turns.map((turn) => JSON.stringify({
+            user: turn.prompt,
+            assistant: turn.answer.error ?? withoutBinaryData(turn.answer.content) ?? turn.answer.embeddedContentResponse,
+            actionsTaken: turn.actionSummary
+        }));
+    }
+
+    toJSON(): SerializedSession {
+        return {
+            id: this.id,
+            turns: this.turns,
+            summarizeActions: this.summarizeActions,
+            maxHistoryTurns: this.maxHistoryTurns,
+            createdAt: this.createdAt,
+            updatedAt: this.updatedAt
+        };
+    }
+
+    /**
+     * Restores a session from its JSON representation
+     */
+    static fromJSON(data: unknown): Session {
+        const serialized = SerializedSessionSchema.parse(data),
+            session = new Session(serialized);
+
+        session._turns = serialized.turns;
+        session.updatedAt = serialized.updatedAt;
+
+        return session;
+    }
+
+    private static summarizeActionLogs(actionLogs: ActionLog[]): string[] {
+        return actionLogs
+            .filter((actionLog) => actionLog.type === RequestTypes.ToolRequest || actionLog.type === RequestTypes.ResourceRequest)
+            .map((actionLog) => {
+                const args = actionLog.arguments ? ` ${JSON.stringify(actionLog.arguments)}` : "",
+                    status = actionLog.isError ? "failed" : "succeeded";
+
+                return `${actionLog.type}: ${actionLog.name}${args} ${status}`;
+            });
+    }
+}
+
+export default Session;
@@ -0,0 +1,61 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { SessionStoreI } from "../shared/interfaces";
+import { SerializedSession, SerializedSessionSchema } from "../shared/types";
+
+/**
+ * Keeps sessions in memory for the lifetime of the process, this is the default store
+ */
+export class InMemorySessionStore implements SessionStoreI {
+    private sessions: Map<string, SerializedSession> = new Map();
+
+    async load(id: string): Promise<SerializedSession | undefined> {
+        const session = this.sessions.get(id);
+
+        // Copy so stored sessions can't be mutated from the outside
+        return session ? structuredClone(session) : undefined;
+    }
+
+    async save(session: SerializedSession): Promise<void> {
+        this.sessions.set(session.id, structuredClone(session));
+    }
+
+    async delete(id: string): Promise<void> {
+        this.sessions.delete(id);
+    }
+}
+
+/**
+ * Persists each session as a JSON file within the given directory
+ */
+export class FileSessionStore implements SessionStoreI {
+    constructor(private directory: string) { }
+
+    async load(id: string): Promise<SerializedSession | undefined> {
+        let contents: string;
+
+        try {
+            contents = await readFile(this.filePath(id), "utf-8");
+        } catch (error) {
+            // Session was never saved
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+            throw error;
+        }
+
+        return SerializedSessionSchema.parse(JSON.parse(contents));
+    }
+
+    async save(session: SerializedSession): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(this.filePath(session.id), JSON.stringify(session, null, 2), "utf-8");
+    }
+
+    async delete(id: string): Promise<void> {
+        await rm(this.filePath(id), { force: true });
+    }
+
+    private filePath(id: string): string {
+        // Session ids are encoded so they can't escape the store's directory
+        return join(this.directory, `${encodeURIComponent(id)}.json`);
+    }
+}
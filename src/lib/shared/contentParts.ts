@@ -0,0 +1,47 @@
+import { ContentPart, ContentPartSchema, MacOutput } from "./types";
+
+/**
+ * Parts of the output's content, single parts are wrapped into an array
+ */
+export function contentParts(content: unknown): ContentPart[] {
+    const parts = Array.isArray(content) ? content : content ? [content] : [];
+
+    return parts.flatMap((part) => {
+        const parsed = ContentPartSchema.safeParse(part);
+        return parsed.success ? [parsed.data] : [];
+    });
+}
+
+/**
+ * Text of the content's text parts, joined by new lines
+ */
+export function contentText(content: unknown): string {
+    return contentParts(content)
+        .flatMap((part) => part.type === "text" ? [part.text] : [])
+        .join("\n");
+}
+
+/**
+ * Image / audio / file parts that carry data or a URL
+ */
+export function mediaParts(content: unknown): ContentPart[] {
+    return contentParts(content)
+        .filter((part) => part.type !== "text" && (part.data !== undefined || part.url !== undefined));
+}
+
+/**
+ * Replaces the base64 data of binary parts with a short note, e.g. to keep generated images out
+ * of the conversation history
+ */
+export function withoutBinaryData<Content extends MacOutput["content"]>(content: Content): Content {
+    const strip = (part: ContentPart): ContentPart => {
+        if (part.type === "text" || part.data === undefined) return part;
+
+        const { data, ...rest } = part;
+        return { ...rest, text: rest.text ?? `[${part.type} omitted, ${data.length} base64 characters]` };
+    };
+
+    if (Array.isArray(content)) return content.map(strip) as Content;
+
+    return (content && typeof content === "object" ? strip(content) : content) as Content;
+}
@@ -1,9 +1,43 @@
-import { MacInput, MacOutput } from "./types";
+import {
+    BridgeCapabilities,
+    BridgeMetadata,
+    ContextAwarePrompt,
+    DiscoveryPrompt,
+    MacInput,
+    MacOutput,
+    ReadResourceResult,
+    RepairPrompt,
+    RequestExtra,
+    SerializedSession,
+    ToolResult
+} from "./types";
+import { ContextBudget } from "../orchestrator/contextBudget";
+import { BridgeRouteRequest } from "../bridge/bridgeRouter";
+import { RateLimiter } from "../bridge/rateLimiter";
+import { RetryPolicy } from "../bridge/retryPolicy";
+import {
+    ContextAwarePromptBuildContext,
+    PromptBuildContext,
+    RepairPromptBuildContext
+} from "../prompts/promptBuilder";
+import {
+    ContentRenderOptions,
+    RenderableContent,
+    RenderedContent
+} from "../prompts/contentRenderers";
 
 export interface LLMBridgeInterface {
     // Properties
     name: string
-    promptExecutor: (input: MacInput) => Promise<MacOutput>;
+    capabilities: BridgeCapabilities;
+    metadata: BridgeMetadata;
+    timeout?: number;
+    retryPolicy?: RetryPolicy;
+    rateLimiter?: RateLimiter;
+    contextBudget?: ContextBudget;
+    promptBuilder?: PromptBuilderI;
+    promptRenderer?: PromptRendererI;
+    promptExecutor: (input: MacInput, extra: RequestExtra) => Promise<MacOutput>;
     completionHandler: (output: MacOutput) => void;
 }
 
@@ -69,4 +103,73 @@ export interface PolicyManagerI {
      * present in the base policies map, but are supposed to be)
      */
     refreshActivePolicies(): void;
-}
\ No newline at end of file
+}
+
+/**
+ * Persists conversation sessions so they can be restored later
+ */
+export interface SessionStoreI {
+    load(id: string): Promise<SerializedSession | undefined>;
+    save(session: SerializedSession): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * Measures the size of a prompt in tokens
+ */
+export interface TokenizerI {
+    count(text: string): number;
+}
+
+/**
+ * Builds the structured prompts sent to the LLM at each step of a run
+ */
+export interface PromptBuilderI {
+    buildDiscoveryPrompt(context: PromptBuildContext): DiscoveryPrompt;
+    buildContextAwarePrompt(context: ContextAwarePromptBuildContext): ContextAwarePrompt;
+    buildRepairPrompt(context: RepairPromptBuildContext): RepairPrompt;
+}
+
+/**
+ * Serializes a structured prompt into the text sent to the LLM
+ */
+export interface PromptRendererI {
+    render(prompt: object): string;
+}
+
+/**
+ * Renders a content item of a tool / resource result into the text fed back to the LLM
+ */
+export interface ContentRendererI {
+    render(content: RenderableContent, options: ContentRenderOptions): RenderedContent;
+}
+
+/**
+ * Selects the bridge each prompt step is sent to
+ */
+export interface BridgeRouterI {
+    /**
+     * Returns the name of a registered bridge, or undefined to keep the current bridge
+     */
+    route(request: BridgeRouteRequest): string | undefined;
+}
+
+/**
+ * Stores cached tool results, expired results must not be returned
+ */
+export interface ToolCacheStoreI {
+    get(key: string): Promise<ToolResult | undefined>;
+    set(key: string, result: ToolResult, ttl: number): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Stores cached resource reads keyed by URI, expired reads must not be returned
+ */
+export interface ResourceCacheStoreI {
+    get(uri: string): Promise<ReadResourceResult | undefined>;
+    set(uri: string, result: ReadResourceResult, ttl: number): Promise<void>;
+    delete(uri: string): Promise<void>;
+    clear(): Promise<void>;
+}
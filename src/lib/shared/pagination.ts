@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { ErrorCode, ListOptions, MACError } from "./types";
+
+/**
+ * Default number of catalog entries per page
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+const OffsetCursorSchema = z.object({
+    offset: z.number().int().nonnegative()
+});
+
+/**
+ * Position within a list of paged sources: the source, the source's own cursor and the number of
+ * items of the source's page that were already returned
+ */
+const SourcesCursorSchema = z.object({
+    source: z.number().int().nonnegative(),
+    cursor: z.string().optional(),
+    offset: z.number().int().nonnegative()
+});
+
+/**
+ * A page of items, e.g. the resources listed by a resource template's `list` callback
+ */
+export type PagedSource<T> = (options: ListOptions) => Promise<{ items: T[], nextCursor?: string }>;
+
+function encodeCursor(position: object): string {
+    return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+function decodeCursor<Position>(cursor: string, schema: z.ZodType<Position>): Position {
+    try {
+        const position = schema.safeParse(JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")));
+        if (position.success) return position.data;
+    } catch { }
+
+    throw new MACError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+}
+
+function pageSizeOf({ pageSize }: ListOptions): number {
+    return Math.max(pageSize ?? DEFAULT_PAGE_SIZE, 1);
+}
+
+/**
+ * Returns the page of items starting at the cursor, and the cursor of the next page if there is one
+ */
+export function paginate<T>(items: T[], options: ListOptions = {}): { page: T[], nextCursor?: string } {
+    const offset = options.cursor ? decodeCursor(options.cursor, OffsetCursorSchema).offset : 0,
+        end = offset + pageSizeOf(options);
+
+    return {
+        page: items.slice(offset, end),
+        ...(end < items.length && { nextCursor: encodeCursor({ offset: end }) })
+    };
+}
+
+/**
+ * Returns a page of the items of the sources, in order. Sources are only asked for the pages the
+ * returned page needs, their own cursors are kept within the returned cursor. Sources are
+ * expected to return the same page for the same cursor.
+ */
+export async function paginateSources<T>(
+    sources: PagedSource<T>[],
+    options: ListOptions = {}
+): Promise<{ page: T[], nextCursor?: string }> {
+    const size = pageSizeOf(options),
+        page: T[] = [];
+
+    let { source, cursor, offset } = options.cursor
+        ? decodeCursor(options.cursor, SourcesCursorSchema)
+        : { source: 0, cursor: undefined, offset: 0 };
+
+    while (source < sources.length && page.length < size) {
+        const { items, nextCursor } = await sources[source]({
+            ...(cursor !== undefined && { cursor }),
+            pageSize: offset + size - page.length
+        });
+
+        const taken = items.slice(offset, offset + size - page.length);
+        page.push(...taken);
+
+        // The rest of the source's page is returned with the next page
+        if (offset + taken.length < items.length) {
+            offset += taken.length;
+            break;
+        }
+
+        offset = 0;
+        if (nextCursor !== undefined) {
+            cursor = nextCursor;
+        } else {
+            source++;
+            cursor = undefined;
+        }
+    }
+
+    return {
+        page,
+        ...(source < sources.length && { nextCursor: encodeCursor({ source, cursor, offset }) })
+    };
+}
@@ -1,5 +1,6 @@
 import { AnyZodObject, z, ZodRawShape, ZodTypeAny } from "zod";
 import { UriTemplate, Variables } from "./uriTemplate";
+import { ResourceCacheStoreI, ToolCacheStoreI } from "./interfaces";
 
 // Errors
 export enum ErrorCode {
@@ -15,7 +16,10 @@ export enum ErrorCode {
     InvalidResourceResponse = 109,
     InvalidResponse = 110,
     BridgeMissing = 111,
-    MaxActionChainLengthExceeded = 112
+    MaxActionChainLengthExceeded = 112,
+    BridgeError = 113,
+    Cancelled = 114,
+    ReplayDivergence = 115
 }
 
 // Content Schemas
@@ -25,22 +29,80 @@ export const TextContentSchema = z.object({
 })
     .passthrough();
 
+/**
+ * Binary content is either embedded as base64 `data` or referenced by `url`
+ */
+const BinaryContentShape = {
+    mimeType: z.string().optional(),
+    /**
+     * Base64-encoded data
+     */
+    data: z.string().base64().optional(),
+    url: z.string().optional(),
+    /**
+     * Description / transcript of the content
+     */
+    text: z.string().optional()
+};
+
 export const ImageContentSchema = z.object({
     type: z.literal("image"),
-    text: z.string()
+    ...BinaryContentShape
 })
     .passthrough();
 
 export const AudioContentSchema = z.object({
     type: z.literal("audio"),
-    text: z.string()
+    ...BinaryContentShape
+})
+    .passthrough();
+
+export const FileContentSchema = z.object({
+    type: z.literal("file"),
+    /**
+     * File name
+     */
+    name: z.string().optional(),
+    ...BinaryContentShape
 })
     .passthrough();
 
+/**
+ * A single typed part of the content
+ */
+export const ContentPartSchema = z.union([
+    TextContentSchema,
+    ImageContentSchema,
+    AudioContentSchema,
+    FileContentSchema
+]);
+
 // Requests
+/**
+ * Extra information passed to bridges, tools and resources when they're invoked during a run
+ */
+export type RequestExtra = {
+    /**
+     * Aborted when the run is cancelled, pass it along to any fetches or long running work
+     */
+    signal: AbortSignal;
+};
+
 export enum RequestTypes {
     ToolRequest = "Tool-Request",
-    ResourceRequest = "Resource-Request"
+    ResourceRequest = "Resource-Request",
+    /**
+     * Candidate values of a resource template's variable
+     */
+    CompletionRequest = "Completion-Request",
+    /**
+     * Not requested by the LLM, records an attempt to get the LLM to fix an invalid response
+     */
+    RepairRequest = "Repair-Request",
+    /**
+     * Not requested by the LLM, records the run switching to a fallback bridge after a bridge failure
+     */
+    BridgeFailover = "Bridge-Failover"
 }
 
 // Resources
@@ -144,6 +206,33 @@ export const ReadResourceResultSchema = z.object({
     )
 });
 
+/**
+ * Sent by the LLM to get candidate values of a resource template's variable, before building a URI from the template.
+ */
+export const CompleteRequestSchema = z.object({
+    type: z.literal(RequestTypes.CompletionRequest),
+    /**
+     * Name of the resource template
+     */
+    template: z.string(),
+    variable: z.string(),
+    /**
+     * Partial value to complete, an empty string lists the first candidates
+     */
+    value: z.string()
+});
+
+/**
+ * Candidate values of a resource template's variable, at most 100 values are returned.
+ */
+export const CompleteResultSchema = z.object({
+    values: z.array(z.string()).max(100),
+    /**
+     * More candidates are available than the returned values
+     */
+    hasMore: z.boolean()
+});
+
 /**
  * Additional, optional information for annotating a resource.
  */
@@ -154,16 +243,48 @@ export type ResourceMetadata = Omit<Resource, "uri" | "name">;
  */
 export type ReadResourceCallback = (
     uri: URL,
+    extra: RequestExtra
 ) => ReadResourceResult | Promise<ReadResourceResult>;
 
+/**
+ * Opt-in caching of a resource's reads, keyed on the resource's URI
+ */
+export type ResourceCacheOptions = {
+    /**
+     * How long reads stay cached in milliseconds, default is 1 minute
+     */
+    ttl?: number;
+    /**
+     * Maximum number of reads kept by the default in-memory LRU store, default is 100
+     */
+    maxEntries?: number;
+    /**
+     * Where reads are cached, defaults to an in-memory LRU store
+     */
+    store?: ResourceCacheStoreI;
+};
+
+/**
+ * Notified with the URI of a subscribed resource whenever the resource signals that its data changed
+ */
+export type ResourceUpdatedListener = (uri: string) => void;
+
 export type RegisteredResource = {
     name: string;
     metadata?: ResourceMetadata;
     callback: ReadResourceCallback;
+    /**
+     * Reads aren't cached if undefined
+     */
+    cache?: { ttl: number, store: ResourceCacheStoreI };
     enabled: boolean;
     enable(): void;
     disable(): void;
-    update(updates: { name?: string, uri?: string | null, metadata?: ResourceMetadata, callback?: ReadResourceCallback, enabled?: boolean }): void
+    update(updates: { name?: string, uri?: string | null, metadata?: ResourceMetadata, callback?: ReadResourceCallback, enabled?: boolean, cache?: ResourceCacheOptions | null }): void
+    /**
+     * Signals that the resource's data changed: its cached read is invalidated and its subscribers are notified
+     */
+    notifyUpdated(): Promise<void>;
     remove(): void
 };
 
@@ -171,10 +292,19 @@ export type RegisteredResourceTemplate = {
     resourceTemplate: ResourceTemplate;
     metadata?: ResourceMetadata;
     callback: ReadResourceTemplateCallback;
+    /**
+     * Reads aren't cached if undefined
+     */
+    cache?: { ttl: number, store: ResourceCacheStoreI };
     enabled: boolean;
     enable(): void;
     disable(): void;
-    update(updates: { name?: string | null, template?: ResourceTemplate, metadata?: ResourceMetadata, callback?: ReadResourceTemplateCallback, enabled?: boolean }): void
+    update(updates: { name?: string | null, template?: ResourceTemplate, metadata?: ResourceMetadata, callback?: ReadResourceTemplateCallback, enabled?: boolean, cache?: ResourceCacheOptions | null }): void
+    /**
+     * Signals that the data of a resource matching the template changed, or of every matching resource
+     * if no URI is given: cached reads are invalidated and subscribers are notified
+     */
+    notifyUpdated(uri?: string): Promise<void>;
     remove(): void
 };
 
@@ -183,9 +313,19 @@ export type RegisteredResourceTemplate = {
  */
 export type ReadResourceTemplateCallback = (
     uri: URL,
-    variables: Variables
+    variables: Variables,
+    extra: RequestExtra
 ) => ReadResourceResult | Promise<ReadResourceResult>;
 
+/**
+ * A callback to list the resources matching a given template, a page at a time. Return a `nextCursor`
+ * to be called again with it for the next page, `pageSize` is the number of resources still needed.
+ */
+export type ListResourcesCallback = (
+    extra: RequestExtra,
+    options: ListOptions
+) => ListResourcesResult | Promise<ListResourcesResult>;
+
 /**
  * A callback to complete one variable within a resource template's URI template.
  */
@@ -202,13 +342,23 @@ export class ResourceTemplate {
 
     constructor(
         uriTemplate: string | UriTemplate,
-        private _callbacks: {
+        private _options: {
+            /**
+             * An optional callback to list all resources matching this template. Listed resources inherit the template's metadata.
+             */
+            list?: ListResourcesCallback;
             /**
              * An optional callback to autocomplete variables within the URI template. Useful for clients and users to discover possible values.
              */
             complete?: {
                 [variable: string]: CompleteResourceTemplateCallback;
             };
+            /**
+             * Optional descriptions of the URI template's variables, included in the resource catalog so the LLM can fill them in.
+             */
+            variables?: {
+                [variable: string]: string;
+            };
         },
     ) {
         this._uriTemplate =
@@ -224,13 +374,27 @@ export class ResourceTemplate {
         return this._uriTemplate;
     }
 
+    /**
+     * Gets the list callback, if one was provided.
+     */
+    get listCallback(): ListResourcesCallback | undefined {
+        return this._options.list;
+    }
+
     /**
      * Gets the callback for completing a specific URI template variable, if one was provided.
      */
     completeCallback(
         variable: string,
     ): CompleteResourceTemplateCallback | undefined {
-        return this._callbacks.complete?.[variable];
+        return this._options.complete?.[variable];
+    }
+
+    /**
+     * Gets the description of a specific URI template variable, if one was provided.
+     */
+    variableDescription(variable: string): string | undefined {
+        return this._options.variables?.[variable];
     }
 }
 
@@ -279,7 +443,11 @@ export const ToolRequestSchema = z.object({
     type: z.literal(RequestTypes.ToolRequest),
     name: z.string(),
     // Validated with tool specific schema
-    arguments: z.record(z.unknown())
+    arguments: z.record(z.unknown()),
+    /**
+     * Identifier of the native tool call the request was made with, if any
+     */
+    toolCallId: z.string().optional()
 });
 
 /**
@@ -301,9 +469,28 @@ export const ToolResultSchema = z.object({
 export type ToolCallback<ParamArgs extends undefined | ZodRawShape = undefined> =
     ParamArgs extends ZodRawShape
     ? (
-        args: z.objectOutputType<ParamArgs, ZodTypeAny>
+        args: z.objectOutputType<ParamArgs, ZodTypeAny>,
+        extra: RequestExtra
     ) => ToolResult | Promise<ToolResult>
-    : () => ToolResult | Promise<ToolResult>;
+    : (extra: RequestExtra) => ToolResult | Promise<ToolResult>;
+
+/**
+ * Opt-in caching of a tool's successful results, keyed on the tool's name and validated arguments
+ */
+export type ToolCacheOptions = {
+    /**
+     * How long results stay cached in milliseconds, default is 5 minutes
+     */
+    ttl?: number;
+    /**
+     * Maximum number of results kept by the default in-memory LRU store, default is 100
+     */
+    maxEntries?: number;
+    /**
+     * Where results are cached, defaults to an in-memory LRU store
+     */
+    store?: ToolCacheStoreI;
+};
 
 export type RegisteredTool = {
     description?: string;
@@ -311,6 +498,10 @@ export type RegisteredTool = {
     responseSchema?: AnyZodObject;
     callback: ToolCallback<undefined | ZodRawShape>;
     timeout?: number;
+    /**
+     * Results aren't cached if undefined
+     */
+    cache?: { ttl: number, store: ToolCacheStoreI };
     enabled: boolean;
     enable(): void;
     disable(): void;
@@ -322,34 +513,178 @@ export type RegisteredTool = {
             outputSchema?: OutputArgs,
             callback?: ToolCallback<InputArgs>,
             enabled?: boolean,
-            timeout?: number;
+            timeout?: number,
+            /**
+             * null disables caching
+             */
+            cache?: ToolCacheOptions | null;
         }): void
     remove(): void
 };
 
 // LLM 
 /**
- * Describes a message returned as part of a prompt.
+ * Optional features a bridge's provider supports
+ */
+export type BridgeCapabilities = {
+    /**
+     * The provider accepts tool definitions and returns tool calls natively, instead of
+     * selecting tools in its JSON response
+     */
+    nativeToolCalling?: boolean;
+    /**
+     * The provider accepts images alongside the prompt, images returned by tools / resources are
+     * then passed to the bridge as attachments instead of being summarized
+     */
+    imageInput?: boolean;
+};
+
+/**
+ * Bridges ordered from fastest to slowest response times
+ */
+export const LATENCY_TIERS = ["low", "medium", "high"] as const;
+export type LatencyTier = typeof LATENCY_TIERS[number];
+
+/**
+ * Describes a bridge's model so prompts can be routed to the most suitable bridge
+ */
+export type BridgeMetadata = {
+    /**
+     * Relative or actual cost of a single prompt, in a unit of your choosing
+     */
+    costPerCall?: number;
+    /**
+     * Maximum number of tokens the model accepts
+     */
+    maxContextTokens?: number;
+    supportsImages?: boolean;
+    latencyTier?: LatencyTier;
+    /**
+     * Free-form labels, e.g. "reasoning" or "fast"
+     */
+    tags?: string[];
+};
+
+/**
+ * Per-call requirements used when routing a prompt to a bridge
+ */
+export type RoutingHints = {
+    /**
+     * The bridge must have every tag
+     */
+    tags?: string[];
+    maxCostPerCall?: number;
+    minContextTokens?: number;
+    requiresImages?: boolean;
+    /**
+     * The bridge's latency tier must be this tier or faster
+     */
+    maxLatencyTier?: LatencyTier;
+};
+
+/**
+ * Tool definition handed to bridges that support native tool calling
+ */
+export const ToolDefinitionSchema = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    /**
+     * JSON schema of the tool's parameters
+     */
+    parameters: z.object({}).passthrough()
+});
+
+/**
+ * Tool call returned natively by a provider
+ */
+export const ToolCallSchema = z.object({
+    /**
+     * Provider specific identifier of the call
+     */
+    id: z.string().optional(),
+    name: z.string(),
+    arguments: z.record(z.unknown())
+});
+
+/**
+ * Describes a message sent or returned as part of a prompt.
  */
 export const LLMMessageSchema = z.object({
-    role: z.enum(["user", "assistant"]),
+    role: z.enum(["system", "user", "assistant", "tool"]),
+    /**
+     * Name of the tool / resource whose result a `tool` message carries
+     */
+    name: z.string().optional(),
+    /**
+     * A single part, or an array of typed parts (e.g. text followed by a generated image)
+     */
     content: z.union([
-        TextContentSchema,
-        ImageContentSchema,
-        AudioContentSchema
-    ])
+        ContentPartSchema,
+        z.array(ContentPartSchema)
+    ]),
+    /**
+     * Tools the LLM called natively, only returned by bridges with the `nativeToolCalling` capability
+     */
+    toolCalls: z.array(ToolCallSchema).optional(),
+    /**
+     * Identifier of the native tool call whose result a `tool` message carries
+     */
+    toolCallId: z.string().optional()
 });
 
+/**
+ * Binary content passed to the bridge alongside the prompt, either embedded as base64 `data` or referenced by `url`
+ */
+export const AttachmentSchema = z.object({
+    type: z.enum(["image", "audio", "file"]),
+    mimeType: z.string(),
+    /**
+     * Base64-encoded data
+     */
+    data: z.string().base64().optional(),
+    url: z.string().url().optional(),
+    /**
+     * File name
+     */
+    name: z.string().optional(),
+    /**
+     * URI of the resource, or name of the tool the attachment came from. Undefined for attachments of the prompt.
+     */
+    source: z.string().optional()
+})
+    .refine((attachment) => attachment.data !== undefined || attachment.url !== undefined, {
+        message: "Attachments need either base64 data or a URL"
+    });
+
 export const MacInputSchema = z.object({
-    input: z.string()
+    /**
+     * The whole prompt flattened into a single string
+     */
+    input: z.string(),
+    /**
+     * The same prompt as ordered messages: instructions and catalogs in a system message, previous turns as
+     * user / assistant messages, the prompt to answer as a user message and executed actions as tool messages
+     */
+    messages: z.array(LLMMessageSchema),
+    /**
+     * Enabled tools, only provided to bridges with the `nativeToolCalling` capability
+     */
+    tools: z.array(ToolDefinitionSchema).optional(),
+    /**
+     * Attachments of the prompt, followed by the images returned by tools / resources (only provided
+     * to bridges with the `imageInput` capability)
+     */
+    attachments: z.array(AttachmentSchema).optional()
 });
 
 export const MacOutputSchema = z.object({
     embeddedContentResponse: z.string().nullable().optional(),
+    /**
+     * A single part, or an array of typed parts (e.g. text followed by a generated image)
+     */
     content: z.union([
-        TextContentSchema,
-        ImageContentSchema,
-        AudioContentSchema
+        ContentPartSchema,
+        z.array(ContentPartSchema)
     ]).nullable().optional(),
     error: z.string().nullable().optional()
 }).passthrough();
@@ -359,13 +694,35 @@ export const LLMGeneratedErrorSchema = z.object({
     errorCode: z.number()
 });
 
+/**
+ * Any request the LLM can make for additional context
+ */
+export const ActionRequestSchema = z.discriminatedUnion("type", [
+    ToolRequestSchema,
+    ReadResourceRequestSchema,
+    CompleteRequestSchema
+]);
+
+/**
+ * Batch of independent requests executed concurrently within a single turn
+ */
+const ActionRequestBatchSchema = z.array(ActionRequestSchema)
+    .describe("Independent tool, resource and completion requests to execute concurrently, use this to make multiple requests at once")
+    .nullable()
+    .optional();
+
 export const MacDiscoveryOutputSchema = z.object({
     resourceRequest: ReadResourceRequestSchema.nullable().optional(),
     toolRequest: ToolRequestSchema.nullable().optional(),
+    requests: ActionRequestBatchSchema,
     error: LLMGeneratedErrorSchema.nullable().optional()
 });
 
 const PromptSchema = z.object({
+    /**
+     * Role / persona the LLM should assume
+     */
+    role: z.string().optional(),
     task: z.string(),
     checklist: z.array(z.string()),
     maxSequentialActions: z.number(),
@@ -376,6 +733,10 @@ const PromptSchema = z.object({
     tools: z.array(z.string()),
     responseSchema: z.any(),
     errorCodes: z.any(),
+    /**
+     * Previous turns of the conversation, oldest first
+     */
+    conversationHistory: z.array(z.string()).optional(),
     promptToAnswer: z.string()
 });
 
@@ -385,30 +746,176 @@ const DiscoveryPromptSchema = PromptSchema.extend({});
  * Include context-enriched output content and any subsequent tool requests
  */
 export const LLMContextAwareOutputSchema = MacOutputSchema.extend({
-    toolInvocationRequest: ToolRequestSchema.nullable().optional()
+    toolInvocationRequest: ToolRequestSchema.nullable().optional(),
+    requests: ActionRequestBatchSchema
 });
 
 const ContextAwarePromptSchema = PromptSchema.extend({
     actionsTaken: z.array(z.string())
 });
 
+/**
+ * Sent when the LLM's previous response could not be parsed or validated
+ */
+const RepairPromptSchema = z.object({
+    task: z.string(),
+    /**
+     * Parsing / validation error produced by the invalid response
+     */
+    error: z.string(),
+    invalidResponse: z.string(),
+    responseSchema: z.any(),
+    /**
+     * The prompt that produced the invalid response
+     */
+    originalPrompt: z.string()
+});
+
 const actionLogSchema = z.object({
     type: z.nativeEnum(RequestTypes),
     name: z.string().optional(),
     arguments: z.record(z.unknown()).optional(),
     timeExecuted: z.number(),
     response: z.object({}).passthrough().optional(),
-    isError: z.boolean().default(false).optional()
+    isError: z.boolean().default(false).optional(),
+    /**
+     * The result came from the tool / resource cache, the tool wasn't executed or the resource wasn't read
+     */
+    cached: z.boolean().optional(),
+    /**
+     * Identifier of the native tool call the tool was executed for, if any
+     */
+    toolCallId: z.string().optional()
+});
+
+// Sessions
+/**
+ * A single prompt and its final answer within a conversation
+ */
+export const SessionTurnSchema = z.object({
+    prompt: z.string(),
+    answer: MacOutputSchema,
+    /**
+     * Short description of each action taken to answer the prompt, only kept if the session summarizes actions
+     */
+    actionSummary: z.array(z.string()).optional(),
+    timestamp: z.number()
+});
+
+/**
+ * JSON representation of a conversation session, used by session stores
+ */
+export const SerializedSessionSchema = z.object({
+    id: z.string(),
+    turns: z.array(SessionTurnSchema),
+    summarizeActions: z.boolean(),
+    /**
+     * Maximum number of previous turns injected into prompts
+     */
+    maxHistoryTurns: z.number().optional(),
+    createdAt: z.number(),
+    updatedAt: z.number()
+});
+
+// Cassettes
+/**
+ * Error thrown during a recorded interaction
+ */
+const SerializedErrorSchema = z.object({
+    message: z.string(),
+    code: z.number().optional()
+});
+
+/**
+ * A single bridge call, tool execution, resource read or completion captured while recording a run
+ */
+export const CassetteInteractionSchema = z.discriminatedUnion("kind", [
+    z.object({
+        kind: z.literal("bridge"),
+        bridge: z.string(),
+        step: z.string(),
+        input: MacInputSchema,
+        output: MacOutputSchema.optional(),
+        error: SerializedErrorSchema.optional()
+    }),
+    z.object({
+        kind: z.literal("tool"),
+        name: z.string(),
+        arguments: z.record(z.unknown()),
+        result: ToolResultSchema.optional(),
+        error: SerializedErrorSchema.optional()
+    }),
+    z.object({
+        kind: z.literal("resource"),
+        uri: z.string(),
+        result: ReadResourceResultSchema.optional(),
+        error: SerializedErrorSchema.optional()
+    }),
+    z.object({
+        kind: z.literal("completion"),
+        template: z.string(),
+        variable: z.string(),
+        value: z.string(),
+        result: CompleteResultSchema.optional(),
+        error: SerializedErrorSchema.optional()
+    })
+]);
+
+/**
+ * JSON representation of a recorded run
+ */
+export const CassetteSchema = z.object({
+    version: z.literal(1),
+    prompt: z.string(),
+    recordedAt: z.number(),
+    interactions: z.array(CassetteInteractionSchema),
+    output: MacOutputSchema,
+    errorCode: z.number().optional()
 });
 
 // Results
+/**
+ * Paging options of catalog listings
+ */
+export type ListOptions = {
+    /**
+     * Opaque cursor returned as `nextCursor` by the previous page, the first page is returned if undefined
+     */
+    cursor?: string;
+    /**
+     * Maximum number of entries per page, default is 50
+     */
+    pageSize?: number;
+};
+
+export const PaginatedResultSchema = z.object({
+    /**
+     * Cursor of the next page, undefined if this is the last page
+     */
+    nextCursor: z.optional(z.string())
+});
+
 /**
  * Response to a tools/list request function invocation
  */
-export const ListToolsResultSchema = z.object({
+export const ListToolsResultSchema = PaginatedResultSchema.extend({
     tools: z.array(ToolSchema)
 });
 
+/**
+ * Response to a resources/list request, includes the resources listed by resource templates
+ */
+export const ListResourcesResultSchema = PaginatedResultSchema.extend({
+    resources: z.array(ResourceSchema)
+});
+
+/**
+ * Response to a resources/templates/list request
+ */
+export const ListResourceTemplatesResultSchema = PaginatedResultSchema.extend({
+    resourceTemplates: z.array(ResourceTemplateSchema)
+});
+
 // Errors
 /**
  * Used to emit verbose error messages
@@ -442,9 +949,13 @@ export type Infer<Schema extends ZodTypeAny> = Flatten<z.infer<Schema>>;
 /** LLM I/O / Prompts */
 export type LLMMessage = Infer<typeof LLMMessageSchema>;
 export type MacInput = Infer<typeof MacInputSchema>;
+export type ToolDefinition = Infer<typeof ToolDefinitionSchema>;
+export type ToolCall = Infer<typeof ToolCallSchema>;
+export type Attachment = Infer<typeof AttachmentSchema>;
 export type MacOutput = Infer<typeof MacOutputSchema>;
 export type DiscoveryPrompt = Infer<typeof DiscoveryPromptSchema>;
 export type ContextAwarePrompt = Infer<typeof ContextAwarePromptSchema>;
+export type RepairPrompt = Infer<typeof RepairPromptSchema>;
 
 /** Resources */
 export type ResourceContents = Infer<typeof ResourceContentsSchema>;
@@ -453,16 +964,68 @@ export type BlobResourceContents = Infer<typeof BlobResourceContentsSchema>;
 export type Resource = Infer<typeof ResourceSchema>;
 export type ReadResourceRequest = Infer<typeof ReadResourceRequestSchema>;
 export type ReadResourceResult = Infer<typeof ReadResourceResultSchema>;
+export type ListResourcesResult = Infer<typeof ListResourcesResultSchema>;
+export type ListResourceTemplatesResult = Infer<typeof ListResourceTemplatesResultSchema>;
+export type CompleteRequest = Infer<typeof CompleteRequestSchema>;
+export type CompleteResult = Infer<typeof CompleteResultSchema>;
 
 /** Tools */
 export type Tool = Infer<typeof ToolSchema>;
+export type ListToolsResult = Infer<typeof ListToolsResultSchema>;
 export type ToolRequest = Infer<typeof ToolRequestSchema>;
 export type ToolResult = Infer<typeof ToolResultSchema>;
 
+/** Actions */
+export type ActionRequest = Infer<typeof ActionRequestSchema>;
+
 /** Content */
 export type TextContent = Infer<typeof TextContentSchema>;
 export type ImageContent = Infer<typeof ImageContentSchema>;
 export type AudioContent = Infer<typeof AudioContentSchema>;
+export type FileContent = Infer<typeof FileContentSchema>;
+export type ContentPart = Infer<typeof ContentPartSchema>;
 
-/** Actions */
 export type ActionLog = Infer<typeof actionLogSchema>;
+
+/** Sessions */
+export type SessionTurn = Infer<typeof SessionTurnSchema>;
+export type SerializedSession = Infer<typeof SerializedSessionSchema>;
+
+/** Cassettes */
+export type SerializedError = Infer<typeof SerializedErrorSchema>;
+export type CassetteInteraction = Infer<typeof CassetteInteractionSchema>;
+export type Cassette = Infer<typeof CassetteSchema>;
+
+/** Runs */
+/**
+ * Result of a single prompt execution, `Output` is the type of the run's output schema (if any)
+ */
+export type RunResult<Output = unknown> = {
+    runId: string;
+    /**
+     * Name of the bridge used to answer the prompt
+     */
+    bridge: string;
+    /**
+     * Final output of the run, this is also passed to the bridge's completion handler
+     */
+    output: MacOutput;
+    /**
+     * Ordered trace of every action taken during the run
+     */
+    actionLogs: ActionLog[];
+    startTime: number;
+    endTime: number;
+    /**
+     * Total execution time of the run in milliseconds [ms]
+     */
+    duration: number;
+    /**
+     * Only present if the run failed
+     */
+    errorCode?: ErrorCode;
+    /**
+     * Final answer validated against the run's output schema, only present if the run had an output schema and succeeded
+     */
+    structuredContent?: Output;
+};
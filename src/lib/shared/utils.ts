@@ -11,4 +11,95 @@ export function extractValidJSON(jsonString: string): string {
         .replace(/^```(?:json)?/, '')  // Remove opening ```json or ```
         .replace(/```$/, '')           // Remove closing ```
         .trim();
-}
\ No newline at end of file
+}
+
+/**
+ * Maps the given items using an async mapper while running at most `concurrency` mappers at a time.
+ * Results preserve the order of the given items, the first rejection rejects the whole batch.
+ * No more items are mapped once a mapper rejects or the signal is aborted, items that were never
+ * mapped are left undefined.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    mapper: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0,
+        failed = false;
+
+    async function worker(): Promise<void> {
+        while (nextIndex < items.length && !failed && !signal?.aborted) {
+            const index = nextIndex++;
+
+            try {
+                results[index] = await mapper(items[index], index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    }
+
+    const workers = Array.from(
+        { length: Math.max(1, Math.min(concurrency, items.length)) },
+        () => worker()
+    );
+
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Resolves with the given promise unless the signal is aborted first, in which case the
+ * returned promise rejects with the result of `onAbort`
+ */
+export function raceWithSignal<T>(
+    promise: Promise<T>,
+    signal: AbortSignal,
+    onAbort: () => unknown
+): Promise<T> {
+    if (signal.aborted) return Promise.reject(onAbort());
+
+    return new Promise<T>((resolve, reject) => {
+        const abortHandler = () => reject(onAbort());
+        signal.addEventListener("abort", abortHandler, { once: true });
+
+        promise
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener("abort", abortHandler));
+    });
+}
+
+/**
+ * Resolves after the given number of milliseconds, or as soon as the signal is aborted
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve) => {
+        if (signal?.aborted) return resolve();
+
+        const abortHandler = () => {
+            clearTimeout(timeoutHandler);
+            resolve();
+        };
+
+        const timeoutHandler = setTimeout(() => {
+            signal?.removeEventListener("abort", abortHandler);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener("abort", abortHandler, { once: true });
+    });
+}
+
+/**
+ * JSON representation of the value with object keys sorted, so equal values always produce the same string
+ */
+export function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_, nested) =>
+        nested && typeof nested === "object" && !Array.isArray(nested)
+            ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+            : nested
+    );
+}
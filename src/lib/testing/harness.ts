@@ -0,0 +1,69 @@
+import Mac from "../model-agnostic-context/mac";
+import { RunOptions } from "../orchestrator/runContext";
+import { RunEvent } from "../events/runEvents";
+import {
+    ActionLog,
+    ErrorCode,
+    MacOutput,
+    RequestTypes,
+    RunResult
+} from "../shared/types";
+
+/**
+ * Everything a test usually asserts on after running a prompt
+ */
+export type HarnessResult = {
+    result: RunResult;
+    output: MacOutput;
+    errorCode?: ErrorCode;
+    /**
+     * Every action of the run in chronological order, including repairs and failovers
+     */
+    actionLogs: ActionLog[];
+    /**
+     * Executed tool requests only
+     */
+    toolRequests: ActionLog[];
+    /**
+     * Executed resource requests only
+     */
+    resourceRequests: ActionLog[];
+    /**
+     * Every event emitted during the run, in order
+     */
+    events: RunEvent[];
+};
+
+/**
+ * Runs the prompt with `Mac.handlePrompt` and collects its trace, e.g. with a `MockBridge`:
+ *
+ * ```typeScript
+ * const bridge = new MockBridge({ script: [MockResponses.toolRequest("weather", { city: "Austin" }), MockResponses.answer("Sunny")] });
+ * const { output, toolRequests } = await runPrompt(new Mac(bridge), "Weather in Austin?");
+ * ```
+ */
+export async function runPrompt(
+    mac: Mac,
+    prompt: string,
+    options: RunOptions = {}
+): Promise<HarnessResult> {
+    const events: RunEvent[] = [];
+
+    const result = await mac.handlePrompt(prompt, {
+        ...options,
+        onEvent: (event) => {
+            events.push(event);
+            options.onEvent?.(event);
+        }
+    });
+
+    return {
+        result,
+        output: result.output,
+        errorCode: result.errorCode,
+        actionLogs: result.actionLogs,
+        toolRequests: result.actionLogs.filter((actionLog) => actionLog.type === RequestTypes.ToolRequest),
+        resourceRequests: result.actionLogs.filter((actionLog) => actionLog.type === RequestTypes.ResourceRequest),
+        events
+    };
+}
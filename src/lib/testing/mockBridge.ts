@@ -0,0 +1,211 @@
+import LLMBridge from "../bridge/llmbridge";
+import {
+    BridgeCapabilities,
+    BridgeMetadata,
+    ErrorCode,
+    LLMMessage,
+    MacInput,
+    MacOutput,
+    RequestExtra,
+    RequestTypes,
+    ToolCall
+} from "../shared/types";
+
+/**
+ * A scripted LLM response:
+ * - strings are returned as the text of the response, as is
+ * - LLM messages (with a `role` and `content`) are returned as is
+ * - any other object is serialized as the JSON the LLM responds with
+ * - errors are thrown by the bridge, e.g. to simulate provider outages
+ */
+export type MockResponse = string | LLMMessage | MacOutput | Record<string, unknown> | Error;
+
+/**
+ * Responses played back in order, or a function producing the response for each received prompt
+ */
+export type MockScript =
+    | MockResponse[]
+    | ((input: MacInput, callIndex: number) => MockResponse | Promise<MockResponse>);
+
+/**
+ * Helpers for scripting the JSON responses the orchestrator expects. Requests are sent as a `requests`
+ * batch, which both the discovery and the follow-up steps accept.
+ */
+export const MockResponses = {
+    toolRequest(name: string, args: Record<string, unknown> = {}): Record<string, unknown> {
+        return { requests: [{ type: RequestTypes.ToolRequest, name, arguments: args }] };
+    },
+
+    resourceRequest(uri: string): Record<string, unknown> {
+        return { requests: [{ type: RequestTypes.ResourceRequest, uri }] };
+    },
+
+    /**
+     * Tool / resource requests executed concurrently
+     */
+    batch(...requests: Record<string, unknown>[]): Record<string, unknown> {
+        return {
+            requests: requests.flatMap((request) => Array.isArray(request.requests) ? request.requests : [request])
+        };
+    },
+
+    answer(text: string): Record<string, unknown> {
+        return { content: { type: "text", text } };
+    },
+
+    error(errorMessage: string, errorCode: ErrorCode = ErrorCode.InvalidRequest): Record<string, unknown> {
+        return { error: { errorMessage, errorCode } };
+    },
+
+    /**
+     * Native tool calls, for bridges with the `nativeToolCalling` capability
+     */
+    toolCalls(...toolCalls: ToolCall[]): LLMMessage {
+        return { role: "assistant", content: { type: "text", text: "" }, toolCalls };
+    }
+};
+
+/**
+ * Bridge that plays back scripted responses instead of calling an LLM, and records every prompt it
+ * receives so tests can assert on them. Intended for fast, deterministic, offline tests of tools
+ * and policies.
+ */
+class MockBridge extends LLMBridge {
+    private script: MockScript;
+    private _receivedInputs: MacInput[] = [];
+    private _outputs: MacOutput[] = [];
+
+    constructor({
+        name,
+        script,
+        capabilities,
+        metadata,
+        completionHandler
+    }: {
+        name?: string,
+        script: MockScript,
+        capabilities?: BridgeCapabilities,
+        metadata?: BridgeMetadata,
+        completionHandler?: (output: MacOutput) => void
+    }) {
+        super({
+            name: name ?? "mock",
+            promptExecutor: async () => {
+                throw new Error("MockBridge: prompt executor is not initialized.");
+            },
+            completionHandler: (output) => {
+                this._outputs.push(output);
+                completionHandler?.(output);
+            },
+            capabilities,
+            metadata
+        });
+
+        this.script = script;
+        this.promptExecutor = (input, extra) => this.respond(input, extra);
+    }
+
+    /**
+     * Every input received by the bridge, in order
+     */
+    get receivedInputs(): MacInput[] {
+        return [...this._receivedInputs];
+    }
+
+    /**
+     * Every final output passed to the completion handler, in order
+     */
+    get completedOutputs(): MacOutput[] {
+        return [...this._outputs];
+    }
+
+    get callCount(): number {
+        return this._receivedInputs.length;
+    }
+
+    /**
+     * Number of scripted responses that haven't been played back yet, always 0 for function scripts
+     */
+    get remainingResponses(): number {
+        return Array.isArray(this.script)
+            ? Math.max(this.script.length - this.callCount, 0)
+            : 0;
+    }
+
+    /**
+     * Replaces the script and forgets every received prompt
+     */
+    reset(script?: MockScript): void {
+        if (script) this.script = script;
+        this._receivedInputs = [];
+        this._outputs = [];
+    }
+
+    /**
+     * Throws if the prompt (the last one by default) doesn't contain the given text
+     */
+    assertPromptContains(text: string, callIndex: number = this.callCount - 1): void {
+        const input = this._receivedInputs[callIndex];
+
+        if (!input) {
+            throw new Error(`MockBridge: ${this.name} didn't receive prompt #${callIndex}, it received ${this.callCount} prompts.`);
+        }
+        if (!input.input.includes(text)) {
+            throw new Error(`MockBridge: prompt #${callIndex} sent to ${this.name} doesn't contain: ${text}`);
+        }
+    }
+
+    /**
+     * Throws if the bridge didn't receive exactly the given number of prompts
+     */
+    assertCallCount(count: number): void {
+        if (this.callCount !== count) {
+            throw new Error(`MockBridge: ${this.name} received ${this.callCount} prompts, expected ${count}.`);
+        }
+    }
+
+    /**
+     * Throws if some scripted responses were never played back
+     */
+    assertScriptConsumed(): void {
+        if (this.remainingResponses > 0) {
+            throw new Error(`MockBridge: ${this.name} has ${this.remainingResponses} unused scripted responses.`);
+        }
+    }
+
+    private async respond(input: MacInput, extra: RequestExtra): Promise<LLMMessage> {
+        const callIndex = this._receivedInputs.length;
+        this._receivedInputs.push(input);
+
+        if (extra.signal.aborted) throw new Error(`MockBridge: ${this.name} was cancelled.`);
+
+        let response: MockResponse | undefined;
+
+        if (Array.isArray(this.script)) {
+            response = this.script[callIndex];
+
+            if (response === undefined) {
+                throw new Error(`MockBridge: ${this.name} received prompt #${callIndex}, but only ${this.script.length} responses are scripted.`);
+            }
+        } else {
+            response = await this.script(input, callIndex);
+        }
+
+        if (response instanceof Error) throw response;
+
+        return MockBridge.toMessage(response);
+    }
+
+    private static toMessage(response: Exclude<MockResponse, Error>): LLMMessage {
+        if (typeof response === "string") {
+            return { role: "assistant", content: { type: "text", text: response } };
+        }
+        if ("role" in response && "content" in response) {
+            return response as LLMMessage;
+        }
+
+        return { role: "assistant", content: { type: "text", text: JSON.stringify(response) } };
+    }
+}
+
+export default MockBridge;